@@ -5,7 +5,14 @@ import morgan from "morgan";
 import { WebSocket, WebSocketServer } from "ws";
 import "dotenv/config";
 import healthRouter from "./routes/health.js";
-import roomsRouter, { getRoomSnapshot, subscribeRoomUpdates, removePlayerFromRoom } from "./routes/rooms.js";
+import roomsRouter, {
+  canCancelStroke,
+  getRoomSnapshot,
+  isRoomMember,
+  normalizeStrokeDelta,
+  removePlayerFromRoom,
+  subscribeRoomUpdates
+} from "./routes/rooms.js";
 import { errorHandler } from "./middleware/errorHandler.js";
 
 const app = express();
@@ -42,6 +49,8 @@ app.use(cors({
     callback(new Error(`CORS blocked for origin: ${origin || "unknown"}`));
   }
 }));
+// Telephone drawings are submitted in one request, so that route alone allows more than the 100kb default
+app.use("/api/rooms/:roomId/telephone/submit", express.json({ limit: "2mb" }));
 app.use(express.json());
 app.use(morgan("dev"));
 
@@ -63,6 +72,15 @@ function sendJson(socket, payload) {
   socket.send(JSON.stringify(payload));
 }
 
+function relayToRoom(sender, payload) {
+  socketClients.forEach((client) => {
+    if (client === sender || client.roomId !== sender.roomId) {
+      return;
+    }
+    sendJson(client.socket, payload);
+  });
+}
+
 wss.on("connection", (socket) => {
   const client = {
     socket,
@@ -81,6 +99,22 @@ wss.on("connection", (socket) => {
       return;
     }
 
+    if (payload?.type === "stroke_delta") {
+      const delta = client.roomId ? normalizeStrokeDelta(client.roomId, client.username, payload) : null;
+      if (delta) {
+        relayToRoom(client, { type: "stroke_delta", delta });
+      }
+      return;
+    }
+
+    if (payload?.type === "stroke_cancel") {
+      const strokeId = String(payload?.strokeId || "");
+      if (strokeId && client.roomId && canCancelStroke(client.roomId, client.username)) {
+        relayToRoom(client, { type: "stroke_cancel", strokeId });
+      }
+      return;
+    }
+
     if (payload?.type !== "subscribe") {
       sendJson(socket, { type: "error", error: "Unsupported message type." });
       return;
@@ -93,6 +127,17 @@ wss.on("connection", (socket) => {
       return;
     }
 
+    const snapshot = getRoomSnapshot(roomId, username);
+    if (!snapshot) {
+      sendJson(socket, { type: "room_missing", roomId });
+      return;
+    }
+    // Only members get attached to the room, so outsiders neither receive updates nor keep a seat alive
+    if (!isRoomMember(roomId, username)) {
+      sendJson(socket, { type: "removed", roomId });
+      return;
+    }
+
     client.roomId = roomId;
     client.username = username;
 
@@ -104,12 +149,6 @@ wss.on("connection", (socket) => {
       disconnectTimers.delete(disconnectKey);
     }
 
-    const snapshot = getRoomSnapshot(roomId, username);
-    if (!snapshot) {
-      sendJson(socket, { type: "room_missing", roomId });
-      return;
-    }
-
     sendJson(socket, { type: "snapshot", snapshot });
   });
 
@@ -167,6 +206,12 @@ const unsubscribeRoomUpdates = subscribeRoomUpdates((roomId) => {
       sendJson(client.socket, { type: "room_missing", roomId });
       return;
     }
+    if (!isRoomMember(roomId, client.username)) {
+      // Detach the socket so it stops receiving updates for a room it no longer belongs to
+      client.roomId = "";
+      sendJson(client.socket, { type: "removed", roomId });
+      return;
+    }
 
     sendJson(client.socket, { type: "snapshot", snapshot });
   });
@@ -8,120 +8,177 @@ const router = Router();
 
 const rooms = new Map();
 const roundTimeouts = new Map();
+const hintTimeouts = new Map();
+const telephoneTimeouts = new Map();
 const chooseWordTimeouts = new Map();
+const voteTimeouts = new Map();
+const spectatorChatTimestamps = new Map();
 
 const ROOM_ID_LENGTH = 6;
 const ROOM_ID_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-const CHOOSE_WORD_OPTIONS = 3;
-const CHOOSE_WORD_DURATION_MS = 20_000;
-const ROUND_DURATION_MS = 90_000;
 const GUESS_ORDER_POINTS = [100, 80, 60, 40];
 const GUESS_ORDER_MIN_POINTS = 25;
 const GUESS_TIME_BONUS_MAX_POINTS = 25;
 const DRAWER_POINTS_PER_CORRECT_GUESS = 15;
+// A letter is revealed when this fraction of the round is left, in order
+const HINT_SCHEDULE = [0.5, 0.25];
+const HINT_POINT_PENALTY = 0.15;
+const TEAM_NAMES = ["Red", "Blue", "Green", "Yellow"];
+// Guessers outside the drawer's team can steal the word for a share of the usual points
+const STEAL_POINTS_RATIO = 0.5;
+// Votes need a majority of the eligible players and stay open for a limited time.
+// A new vote of the same kind can only be started once the cooldown since the last one has passed.
+const VOTE_TYPES = ["skip", "kick"];
+const VOTE_DURATION_MS = 30_000;
+const VOTE_COOLDOWN_MS = 60_000;
+const MIN_KICK_VOTE_PLAYERS = 3;
 const MAX_CHAT_MESSAGES = 220;
+const MAX_SPECTATOR_MESSAGES = 80;
+const MAX_SPECTATOR_MESSAGE_LENGTH = 160;
+const SPECTATOR_CHAT_INTERVAL_MS = 1_000;
 const MAX_ROUNDS_CAP = 8;
+const MAX_CONFIGURED_ROUNDS = 16;
+// Host-editable room settings: each value is a whole number within its range.
+// A roundCount of 0 keeps the automatic round count from computeTotalRounds.
+const ROOM_SETTING_LIMITS = {
+  roundDurationSeconds: { label: "Round length", min: 30, max: 240, fallback: 90 },
+  chooseWordDurationSeconds: { label: "Pick time", min: 5, max: 60, fallback: 20 },
+  wordChoiceCount: { label: "Word choices", min: 1, max: 5, fallback: 3 },
+  roundCount: { label: "Total rounds", min: 0, max: MAX_CONFIGURED_ROUNDS, fallback: 0 },
+  teamCount: { label: "Teams", min: 2, max: TEAM_NAMES.length, fallback: 2 }
+};
+const MAX_STROKES = 800;
+const MAX_CLEAR_HISTORY = 10;
+const MAX_ROUND_DRAWINGS = MAX_CONFIGURED_ROUNDS;
+const WORD_SOURCES = ["default", "mixed", "custom"];
+const GAME_MODES = ["classic", "telephone"];
+// Telephone chains alternate writing and drawing, then finish with a shared reveal
+const TELEPHONE_PHASES = ["telephone_write", "telephone_draw", "telephone_describe", "telephone_reveal"];
+const TELEPHONE_TEXT_DURATION_MS = 45_000;
+const TELEPHONE_SUBMIT_GRACE_MS = 3_000;
+const MAX_TELEPHONE_TEXT_LENGTH = 120;
+const MAX_CUSTOM_WORDS = 500;
+const MIN_CUSTOM_WORD_LENGTH = 2;
+const MAX_CUSTOM_WORD_LENGTH = 32;
+const WORD_CATEGORIES = ["people", "characters", "media", "sports", "places", "things", "actions", "ideas"];
+const WORD_DIFFICULTIES = ["easy", "medium", "hard"];
+const DIFFICULTY_MULTIPLIERS = { easy: 1, medium: 1.5, hard: 2 };
+const CANVAS_WIDTH = 760;
+const CANVAS_HEIGHT = 620;
+const DEFAULT_CANVAS_BACKGROUND = "#ECECEC";
+const DEFAULT_FILL_TOLERANCE = 32;
+const MAX_FILL_TOLERANCE = 255;
+const MIN_WIDTH_FACTOR = 0.1;
+const MAX_WIDTH_FACTOR = 2;
+const MIN_STROKE_OPACITY = 0.05;
+const MAX_STROKE_DELTA_POINTS = 64;
+const MAX_STROKE_DURATION_MS = ROOM_SETTING_LIMITS.roundDurationSeconds.max * 1000;
+const MAX_STROKE_GROUP_SIZE = 4;
+const STROKE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const STROKE_MODES = ["stroke", "erase", "fill", "line", "rect", "ellipse"];
+const SHAPE_MODES = ["line", "rect", "ellipse"];
 const WORDS = [
-  "xi jinping",
-  "Vladimir Putin",
-  "Minecraft",
-  "drake",
-  "taylor swift",
-  "pokemon",
-  "Grand Theft Auto V",
-  "smoking",
-  "drinking",
-  "drive by",
-  "demon slayer",
-  "Frieren",
-  "chainsaw man",
-  "badminton",
-  "hockey",
-  "chess",
-  "piano",
-  "dragon",
-  "William Shakespeare",
-  "Winnie the Pooh",
-  "robots",
-  "virtual reality",
-  "Sherlock Holmes",
-  "Northern Lights",
-  "Michael Jackson",
-  "elon musk",
-  "Cookie Monster",
-  "league of legends",
-  "moscow",
-  "Yin and Yang",
-  "time machine",
-  "dagestan",
-  "Mickey Mouse",
-  "Harry Potter",
-  "flamethrower",
-  "electric car",
-  "conversation",
-  "Barack Obama",
-  "spray paint",
-  "Tooth Fairy",
-  "North Korea",
-  "Jackie Chan",
-  "Kim Jong-un",
-  "boondocks",
-  "electricity",
-  "Donald Duck",
-  "credit card",
-  "butt cheeks",
-  "Angry Birds",
-  "space suit",
-  "Scooby Doo",
-  "punishment",
-  "Lion King",
-  "communism",
-  "cigarette",
-  "password",
-  "virus",
-  "vlogger",
-  "protest",
-  "peasant",
-  "slave",
-  "bed bug",
-  "zigzag",
-  "Wall-e",
-  "tetris",
-  "Sudoku",
-  "jav",
-  "sniper",
-  "jeffrey epstein",
-  "Alexander Ovechkin",
-  "rapper",
-  "puzzle",
-  "pirate",
-  "ice cream",
-  "T-rex",
-  "train",
-  "panda",
-  "ninja",
-  "error",
-  "anime",
-  "Spongebob Squarepants",
-  "Shrek",
-  "Fortnite",
-  "Five Nights at Freddy's",
-  "Among Us",
-  "Hacking",
-  "Bank robbery",
-  "Nuclear bomb",
-  "Drone strike",
-  "Guillotine",
-  "Mount Everest",
-  "International Space Station",
-  "Flat Earth",
-  "Voodoo doll",
-  "Batman",
-  "Rickroll",
-  "This is fine",
-  "hood",
-  "live streaming",
-  "rainbow"
+  { word: "xi jinping", category: "people", difficulty: "medium" },
+  { word: "Vladimir Putin", category: "people", difficulty: "medium" },
+  { word: "Minecraft", category: "media", difficulty: "easy" },
+  { word: "drake", category: "people", difficulty: "medium" },
+  { word: "taylor swift", category: "people", difficulty: "medium" },
+  { word: "pokemon", category: "media", difficulty: "easy" },
+  { word: "Grand Theft Auto V", category: "media", difficulty: "hard" },
+  { word: "smoking", category: "actions", difficulty: "medium" },
+  { word: "drinking", category: "actions", difficulty: "easy" },
+  { word: "drive by", category: "actions", difficulty: "hard" },
+  { word: "demon slayer", category: "media", difficulty: "hard" },
+  { word: "Frieren", category: "media", difficulty: "hard" },
+  { word: "chainsaw man", category: "media", difficulty: "medium" },
+  { word: "badminton", category: "sports", difficulty: "medium" },
+  { word: "hockey", category: "sports", difficulty: "easy" },
+  { word: "chess", category: "sports", difficulty: "easy" },
+  { word: "piano", category: "things", difficulty: "easy" },
+  { word: "dragon", category: "things", difficulty: "easy" },
+  { word: "William Shakespeare", category: "people", difficulty: "hard" },
+  { word: "Winnie the Pooh", category: "characters", difficulty: "medium" },
+  { word: "robots", category: "things", difficulty: "easy" },
+  { word: "virtual reality", category: "ideas", difficulty: "medium" },
+  { word: "Sherlock Holmes", category: "characters", difficulty: "medium" },
+  { word: "Northern Lights", category: "places", difficulty: "medium" },
+  { word: "Michael Jackson", category: "people", difficulty: "medium" },
+  { word: "elon musk", category: "people", difficulty: "medium" },
+  { word: "Cookie Monster", category: "characters", difficulty: "medium" },
+  { word: "league of legends", category: "media", difficulty: "hard" },
+  { word: "moscow", category: "places", difficulty: "hard" },
+  { word: "Yin and Yang", category: "ideas", difficulty: "medium" },
+  { word: "time machine", category: "things", difficulty: "medium" },
+  { word: "dagestan", category: "places", difficulty: "hard" },
+  { word: "Mickey Mouse", category: "characters", difficulty: "easy" },
+  { word: "Harry Potter", category: "characters", difficulty: "medium" },
+  { word: "flamethrower", category: "things", difficulty: "medium" },
+  { word: "electric car", category: "things", difficulty: "medium" },
+  { word: "conversation", category: "actions", difficulty: "hard" },
+  { word: "Barack Obama", category: "people", difficulty: "medium" },
+  { word: "spray paint", category: "things", difficulty: "medium" },
+  { word: "Tooth Fairy", category: "characters", difficulty: "medium" },
+  { word: "North Korea", category: "places", difficulty: "medium" },
+  { word: "Jackie Chan", category: "people", difficulty: "medium" },
+  { word: "Kim Jong-un", category: "people", difficulty: "medium" },
+  { word: "boondocks", category: "media", difficulty: "hard" },
+  { word: "electricity", category: "ideas", difficulty: "medium" },
+  { word: "Donald Duck", category: "characters", difficulty: "easy" },
+  { word: "credit card", category: "things", difficulty: "easy" },
+  { word: "butt cheeks", category: "things", difficulty: "easy" },
+  { word: "Angry Birds", category: "media", difficulty: "easy" },
+  { word: "space suit", category: "things", difficulty: "medium" },
+  { word: "Scooby Doo", category: "characters", difficulty: "medium" },
+  { word: "punishment", category: "ideas", difficulty: "hard" },
+  { word: "Lion King", category: "media", difficulty: "medium" },
+  { word: "communism", category: "ideas", difficulty: "hard" },
+  { word: "cigarette", category: "things", difficulty: "easy" },
+  { word: "password", category: "ideas", difficulty: "medium" },
+  { word: "virus", category: "things", difficulty: "medium" },
+  { word: "vlogger", category: "people", difficulty: "medium" },
+  { word: "protest", category: "actions", difficulty: "medium" },
+  { word: "peasant", category: "people", difficulty: "hard" },
+  { word: "slave", category: "people", difficulty: "hard" },
+  { word: "bed bug", category: "things", difficulty: "medium" },
+  { word: "zigzag", category: "ideas", difficulty: "easy" },
+  { word: "Wall-e", category: "characters", difficulty: "medium" },
+  { word: "tetris", category: "media", difficulty: "easy" },
+  { word: "Sudoku", category: "media", difficulty: "medium" },
+  { word: "jav", category: "media", difficulty: "hard" },
+  { word: "sniper", category: "people", difficulty: "medium" },
+  { word: "jeffrey epstein", category: "people", difficulty: "hard" },
+  { word: "Alexander Ovechkin", category: "people", difficulty: "hard" },
+  { word: "rapper", category: "people", difficulty: "medium" },
+  { word: "puzzle", category: "ideas", difficulty: "easy" },
+  { word: "pirate", category: "people", difficulty: "easy" },
+  { word: "ice cream", category: "things", difficulty: "easy" },
+  { word: "T-rex", category: "things", difficulty: "easy" },
+  { word: "train", category: "things", difficulty: "easy" },
+  { word: "panda", category: "things", difficulty: "easy" },
+  { word: "ninja", category: "people", difficulty: "easy" },
+  { word: "error", category: "ideas", difficulty: "medium" },
+  { word: "anime", category: "media", difficulty: "medium" },
+  { word: "Spongebob Squarepants", category: "characters", difficulty: "medium" },
+  { word: "Shrek", category: "characters", difficulty: "easy" },
+  { word: "Fortnite", category: "media", difficulty: "medium" },
+  { word: "Five Nights at Freddy's", category: "media", difficulty: "hard" },
+  { word: "Among Us", category: "media", difficulty: "easy" },
+  { word: "Hacking", category: "actions", difficulty: "medium" },
+  { word: "Bank robbery", category: "actions", difficulty: "medium" },
+  { word: "Nuclear bomb", category: "things", difficulty: "medium" },
+  { word: "Drone strike", category: "actions", difficulty: "hard" },
+  { word: "Guillotine", category: "things", difficulty: "medium" },
+  { word: "Mount Everest", category: "places", difficulty: "medium" },
+  { word: "International Space Station", category: "places", difficulty: "hard" },
+  { word: "Flat Earth", category: "ideas", difficulty: "hard" },
+  { word: "Voodoo doll", category: "things", difficulty: "medium" },
+  { word: "Batman", category: "characters", difficulty: "easy" },
+  { word: "Rickroll", category: "media", difficulty: "hard" },
+  { word: "This is fine", category: "media", difficulty: "hard" },
+  { word: "hood", category: "things", difficulty: "medium" },
+  { word: "live streaming", category: "actions", difficulty: "hard" },
+  { word: "rainbow", category: "things", difficulty: "easy" }
 ];
 const STORAGE_FILE_VERSION = 1;
 const __filename = fileURLToPath(import.meta.url);
@@ -135,11 +192,16 @@ function clampNumber(value, min, max) {
   return Math.min(max, Math.max(min, value));
 }
 
-function calculateGuesserPoints(guessOrder, roundEndsAt) {
+// Each revealed hint takes a share of the guesser's points, but never below a small floor
+function applyHintPenalty(points, hintCount) {
+  return Math.round(points * Math.max(0.25, 1 - hintCount * HINT_POINT_PENALTY));
+}
+
+function calculateGuesserPoints(guessOrder, roundEndsAt, roundDurationMs) {
   const orderPoints = GUESS_ORDER_POINTS[guessOrder - 1] ?? GUESS_ORDER_MIN_POINTS;
 
   const remainingMs = Number.isFinite(roundEndsAt) ? Math.max(0, roundEndsAt - Date.now()) : 0;
-  const timeRatio = ROUND_DURATION_MS > 0 ? clampNumber(remainingMs / ROUND_DURATION_MS, 0, 1) : 0;
+  const timeRatio = roundDurationMs > 0 ? clampNumber(remainingMs / roundDurationMs, 0, 1) : 0;
   const timeBonusPoints = Math.round(timeRatio * GUESS_TIME_BONUS_MAX_POINTS);
 
   return orderPoints + timeBonusPoints;
@@ -187,14 +249,254 @@ function computeTotalRounds(playerCount) {
   return MAX_ROUNDS_CAP;
 }
 
-function pickWordChoices(count = CHOOSE_WORD_OPTIONS) {
-  if (WORDS.length === 0) {
+function normalizeRoomSettings(rawSettings) {
+  const settings = {};
+  Object.entries(ROOM_SETTING_LIMITS).forEach(([key, limits]) => {
+    const value = Number(rawSettings?.[key]);
+    settings[key] = Number.isInteger(value) && value >= limits.min && value <= limits.max
+      ? value
+      : limits.fallback;
+  });
+  settings.wordSource = WORD_SOURCES.includes(rawSettings?.wordSource) ? rawSettings.wordSource : "default";
+  const categories = Array.isArray(rawSettings?.categories)
+    ? WORD_CATEGORIES.filter((category) => rawSettings.categories.includes(category))
+    : [];
+  settings.categories = categories.length > 0 ? categories : [...WORD_CATEGORIES];
+  settings.teamMode = rawSettings?.teamMode === true;
+  settings.gameMode = GAME_MODES.includes(rawSettings?.gameMode) ? rawSettings.gameMode : "classic";
+  return settings;
+}
+
+// Applies a partial settings update on top of the current settings.
+// Returns the merged settings, or an error message for the first invalid value.
+function validateRoomSettings(rawSettings, currentSettings) {
+  if (!rawSettings || typeof rawSettings !== "object" || Array.isArray(rawSettings)) {
+    return { error: "Settings are required." };
+  }
+
+  const settings = { ...currentSettings };
+  for (const [key, limits] of Object.entries(ROOM_SETTING_LIMITS)) {
+    if (rawSettings[key] === undefined) {
+      continue;
+    }
+    const value = Number(rawSettings[key]);
+    if (!Number.isInteger(value) || value < limits.min || value > limits.max) {
+      return { error: `${limits.label} must be a whole number from ${limits.min} to ${limits.max}.` };
+    }
+    settings[key] = value;
+  }
+  if (rawSettings.wordSource !== undefined) {
+    if (!WORD_SOURCES.includes(rawSettings.wordSource)) {
+      return { error: "Word source must be default, mixed or custom." };
+    }
+    settings.wordSource = rawSettings.wordSource;
+  }
+  if (rawSettings.categories !== undefined) {
+    if (!Array.isArray(rawSettings.categories) || rawSettings.categories.some((category) => !WORD_CATEGORIES.includes(category))) {
+      return { error: `Categories must be chosen from ${WORD_CATEGORIES.join(", ")}.` };
+    }
+    if (rawSettings.categories.length === 0) {
+      return { error: "Pick at least one word category." };
+    }
+    settings.categories = WORD_CATEGORIES.filter((category) => rawSettings.categories.includes(category));
+  }
+  if (rawSettings.teamMode !== undefined) {
+    if (typeof rawSettings.teamMode !== "boolean") {
+      return { error: "Team mode must be on or off." };
+    }
+    settings.teamMode = rawSettings.teamMode;
+  }
+  if (rawSettings.gameMode !== undefined) {
+    if (!GAME_MODES.includes(rawSettings.gameMode)) {
+      return { error: "Game mode must be classic or telephone." };
+    }
+    settings.gameMode = rawSettings.gameMode;
+  }
+  return { settings };
+}
+
+function resolveTotalRounds(room) {
+  if (room.settings.roundCount > 0) {
+    return room.settings.roundCount;
+  }
+  const autoRounds = computeTotalRounds(room.players.length);
+  if (!room.settings.teamMode) {
+    return autoRounds;
+  }
+  // Round up so every team gets the same number of turns at the canvas
+  const { teamCount } = room.settings;
+  return Math.min(Math.ceil(autoRounds / teamCount) * teamCount, Math.floor(MAX_CONFIGURED_ROUNDS / teamCount) * teamCount);
+}
+
+function getTeamIndex(room, playerName) {
+  const teamIndex = room.teamAssignments[playerName];
+  return Number.isInteger(teamIndex) ? teamIndex : null;
+}
+
+function getTeamMembers(room, teamIndex) {
+  return room.players.filter((playerName) => getTeamIndex(room, playerName) === teamIndex);
+}
+
+function assignToSmallestTeam(room, playerName) {
+  const teamSizes = TEAM_NAMES.slice(0, room.settings.teamCount).map((_, teamIndex) => getTeamMembers(room, teamIndex).length);
+  room.teamAssignments[playerName] = teamSizes.indexOf(Math.min(...teamSizes));
+}
+
+function balanceTeams(room) {
+  room.teamAssignments = {};
+  shufflePlayers(room.players).forEach((playerName, index) => {
+    room.teamAssignments[playerName] = index % room.settings.teamCount;
+  });
+}
+
+function normalizeTeamAssignments(rawAssignments, players, teamCount) {
+  const room = { players, settings: { teamCount }, teamAssignments: {} };
+  players.forEach((playerName) => {
+    const teamIndex = Number(rawAssignments?.[playerName]);
+    if (Number.isInteger(teamIndex) && teamIndex >= 0 && teamIndex < teamCount) {
+      room.teamAssignments[playerName] = teamIndex;
+    }
+  });
+  players
+    .filter((playerName) => getTeamIndex(room, playerName) === null)
+    .forEach((playerName) => assignToSmallestTeam(room, playerName));
+  return room.teamAssignments;
+}
+
+function buildTeams(room) {
+  if (!room.settings.teamMode) {
+    return [];
+  }
+  return TEAM_NAMES.slice(0, room.settings.teamCount).map((name, teamIndex) => {
+    const members = getTeamMembers(room, teamIndex);
+    return {
+      id: teamIndex,
+      name,
+      players: members,
+      score: room.teamScores[teamIndex] || 0
+    };
+  });
+}
+
+function createEmptyTeamScores() {
+  return TEAM_NAMES.map(() => 0);
+}
+
+// Team totals are kept apart from player scores so a teammate leaving mid-game doesn't take their points with them
+function awardPoints(room, playerName, points) {
+  room.scores[playerName] = (room.scores[playerName] || 0) + points;
+  const teamIndex = getTeamIndex(room, playerName);
+  if (room.settings.teamMode && teamIndex !== null) {
+    room.teamScores[teamIndex] = (room.teamScores[teamIndex] || 0) + points;
+  }
+}
+
+function normalizeWordEntry(value) {
+  return String(value || "").trim().replace(/\s+/g, " ");
+}
+
+function isValidCustomWord(word) {
+  return word.length >= MIN_CUSTOM_WORD_LENGTH && word.length <= MAX_CUSTOM_WORD_LENGTH && /[A-Za-z0-9]/.test(word);
+}
+
+// Custom lists arrive as one word per line or comma-separated, or as an array.
+// Duplicates are dropped case-insensitively; any word that fails the length check rejects the list.
+function parseCustomWords(rawWords) {
+  const entries = Array.isArray(rawWords)
+    ? rawWords
+    : String(rawWords || "").split(/[\n,]/);
+
+  const words = [];
+  const seen = new Set();
+  for (const entry of entries) {
+    const word = normalizeWordEntry(entry);
+    if (!word) {
+      continue;
+    }
+    if (!isValidCustomWord(word)) {
+      return {
+        error: `"${word}" must be ${MIN_CUSTOM_WORD_LENGTH} to ${MAX_CUSTOM_WORD_LENGTH} characters with at least one letter or number.`
+      };
+    }
+    const key = word.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    words.push(word);
+  }
+
+  if (words.length > MAX_CUSTOM_WORDS) {
+    return { error: `Custom word lists can hold at most ${MAX_CUSTOM_WORDS} words.` };
+  }
+  return { words };
+}
+
+function normalizeCustomWords(rawWords) {
+  if (!Array.isArray(rawWords)) {
+    return [];
+  }
+  const validEntries = rawWords.map(normalizeWordEntry).filter(isValidCustomWord);
+  return parseCustomWords(validEntries.slice(0, MAX_CUSTOM_WORDS)).words;
+}
+
+// Custom words carry no tags, so their difficulty is guessed from how much there is to draw:
+// short single words are easy, long or three-plus-word phrases are hard.
+function estimateWordDifficulty(word) {
+  const wordCount = word.split(" ").length;
+  if (wordCount >= 3 || word.length > 14) {
+    return "hard";
+  }
+  if (wordCount === 1 && word.length <= 6) {
+    return "easy";
+  }
+  return "medium";
+}
+
+function getDifficultyMultiplier(difficulty) {
+  return DIFFICULTY_MULTIPLIERS[difficulty] ?? 1;
+}
+
+function getWordPool(settings, customWords) {
+  const customEntries = customWords.map((word) => ({
+    word,
+    category: "custom",
+    difficulty: estimateWordDifficulty(word)
+  }));
+  if (settings.wordSource === "custom") {
+    return customEntries;
+  }
+
+  const defaultEntries = WORDS.filter((entry) => settings.categories.includes(entry.category));
+  if (settings.wordSource === "mixed") {
+    const defaultKeys = new Set(defaultEntries.map((entry) => entry.word.toLowerCase()));
+    return [...defaultEntries, ...customEntries.filter((entry) => !defaultKeys.has(entry.word.toLowerCase()))];
+  }
+  return defaultEntries;
+}
+
+// Picks one word per difficulty first so the drawer can trade an easy sketch for more points,
+// then tops up from whatever is left when there are more choices than difficulties.
+function pickWordChoices(entries, count = ROOM_SETTING_LIMITS.wordChoiceCount.fallback) {
+  if (entries.length === 0) {
     return [];
   }
 
-  const pool = [...WORDS];
+  const pool = [...entries];
   const pickCount = Math.min(Math.max(1, count), pool.length);
   const picks = [];
+  const difficulties = [...WORD_DIFFICULTIES];
+
+  while (picks.length < pickCount && difficulties.length > 0) {
+    const [difficulty] = difficulties.splice(randomInt(0, difficulties.length), 1);
+    const candidates = pool.filter((entry) => entry.difficulty === difficulty);
+    if (candidates.length === 0) {
+      continue;
+    }
+    const picked = candidates[randomInt(0, candidates.length)];
+    picks.push(picked);
+    pool.splice(pool.indexOf(picked), 1);
+  }
 
   while (picks.length < pickCount) {
     const pickedIndex = randomInt(0, pool.length);
@@ -202,7 +504,22 @@ function pickWordChoices(count = CHOOSE_WORD_OPTIONS) {
     pool.splice(pickedIndex, 1);
   }
 
-  return picks;
+  return picks
+    .sort((left, right) => WORD_DIFFICULTIES.indexOf(left.difficulty) - WORD_DIFFICULTIES.indexOf(right.difficulty))
+    .map(({ word, difficulty }) => ({ word, difficulty }));
+}
+
+function normalizeWordChoice(rawChoice) {
+  // Rooms saved before difficulty tiers stored choices as plain strings
+  const word = normalizeWordEntry(typeof rawChoice === "string" ? rawChoice : rawChoice?.word);
+  if (!word) {
+    return null;
+  }
+  const knownEntry = WORDS.find((entry) => entry.word.toLowerCase() === word.toLowerCase());
+  const difficulty = WORD_DIFFICULTIES.includes(rawChoice?.difficulty)
+    ? rawChoice.difficulty
+    : knownEntry?.difficulty || estimateWordDifficulty(word);
+  return { word, difficulty };
 }
 
 function sanitizePoints(points) {
@@ -211,15 +528,214 @@ function sanitizePoints(points) {
   }
 
   return points
-    .map((point) => ({
-      x: Number(point?.x),
-      y: Number(point?.y)
-    }))
+    .map((point) => {
+      const sanitizedPoint = {
+        x: Number(point?.x),
+        y: Number(point?.y)
+      };
+      // Optional pressure width factor; points without one draw at the plain brush size
+      const widthFactor = Number(point?.w);
+      if (point?.w !== undefined && point?.w !== null && Number.isFinite(widthFactor)) {
+        sanitizedPoint.w = clampNumber(widthFactor, MIN_WIDTH_FACTOR, MAX_WIDTH_FACTOR);
+      }
+      // Optional milliseconds since the stroke started, used for time-lapse replays
+      const elapsed = Number(point?.t);
+      if (point?.t !== undefined && point?.t !== null && Number.isFinite(elapsed)) {
+        sanitizedPoint.t = clampNumber(Math.round(elapsed), 0, MAX_STROKE_DURATION_MS);
+      }
+      return sanitizedPoint;
+    })
     .filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y));
 }
 
-function maskWord(word) {
-  return String(word || "").replace(/[A-Za-z0-9]/g, "_");
+function sanitizeOpacity(value) {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  const opacity = Number(value);
+  return Number.isFinite(opacity) ? clampNumber(opacity, MIN_STROKE_OPACITY, 1) : 1;
+}
+
+function sanitizeStartedAt(value) {
+  const startedAt = Number(value);
+  return Number.isFinite(startedAt) && startedAt > 0 ? Math.round(startedAt) : 0;
+}
+
+function sanitizeFillSeed(points) {
+  const seed = points[0];
+  if (!seed) {
+    return null;
+  }
+  if (seed.x < 0 || seed.x > CANVAS_WIDTH || seed.y < 0 || seed.y > CANVAS_HEIGHT) {
+    return null;
+  }
+  return seed.t === undefined ? { x: seed.x, y: seed.y } : { x: seed.x, y: seed.y, t: seed.t };
+}
+
+// Accepts #RGB or #RRGGBB and returns the uppercase #RRGGBB form, or "" when invalid.
+function sanitizeHexColor(value) {
+  const color = String(value || "").trim();
+  if (!HEX_COLOR_PATTERN.test(color)) {
+    return "";
+  }
+  const hex = color.slice(1);
+  const expanded = hex.length === 3 ? hex.split("").map((digit) => digit + digit).join("") : hex;
+  return `#${expanded.toUpperCase()}`;
+}
+
+// Validates a stroke coming from a client or the persisted store. Group ids are handed out by
+// the server, so they come in as `groupId` rather than from the raw stroke.
+// Returns { stroke } on success or { error } describing why it was rejected.
+function normalizeStroke(rawStroke, id, groupId = "") {
+  const mode = STROKE_MODES.includes(rawStroke?.mode) ? rawStroke.mode : "stroke";
+  const points = sanitizePoints(rawStroke?.points);
+  const color = sanitizeHexColor(rawStroke?.color);
+  const size = clampNumber(Number(rawStroke?.size) || 4, 1, 24);
+  const opacity = sanitizeOpacity(rawStroke?.opacity);
+  const startedAt = sanitizeStartedAt(rawStroke?.startedAt);
+  const base = { id, mode, color, size, opacity };
+  if (startedAt) {
+    base.startedAt = startedAt;
+  }
+  // Strokes sharing a group (mirrored copies) are undone and redone together
+  if (groupId) {
+    base.groupId = groupId;
+  }
+
+  if (!color) {
+    return { error: "Stroke color must be a hex value like #1A2B3C." };
+  }
+
+  if (mode === "fill") {
+    const seed = sanitizeFillSeed(points);
+    if (!seed) {
+      return { error: "Fill requires a seed point inside the canvas." };
+    }
+
+    const toleranceValue = Number(rawStroke?.tolerance);
+    const tolerance = Number.isFinite(toleranceValue)
+      ? clampNumber(Math.round(toleranceValue), 0, MAX_FILL_TOLERANCE)
+      : DEFAULT_FILL_TOLERANCE;
+
+    return { stroke: { ...base, points: [seed], tolerance } };
+  }
+
+  if (points.length < 2) {
+    return { error: "Stroke requires at least two points." };
+  }
+
+  // Shapes are stored as their two drag corners and rebuilt on every client
+  if (SHAPE_MODES.includes(mode)) {
+    const shapePoints = [points[0], points[points.length - 1]].map(({ x, y, t }) => (t === undefined ? { x, y } : { x, y, t }));
+    if (mode === "line") {
+      return { stroke: { ...base, points: shapePoints } };
+    }
+    return { stroke: { ...base, points: shapePoints, filled: rawStroke?.filled === true } };
+  }
+
+  return { stroke: { ...base, points } };
+}
+
+function sanitizeStrokeId(value) {
+  const strokeId = String(value || "").trim();
+  return STROKE_ID_PATTERN.test(strokeId) ? strokeId : "";
+}
+
+function normalizeStrokeList(rawStrokes) {
+  if (!Array.isArray(rawStrokes)) {
+    return [];
+  }
+
+  return rawStrokes
+    .map((stroke) => {
+      const strokeId = typeof stroke?.id === "string" ? stroke.id : `stroke_${Date.now()}_${randomInt(1000, 9999)}`;
+      return normalizeStroke(stroke, strokeId, sanitizeStrokeId(stroke?.groupId)).stroke || null;
+    })
+    .filter(Boolean);
+}
+
+// Drops the canvas and its undo/redo history, used whenever a new round begins or ends.
+function resetDrawing(room) {
+  room.strokes = [];
+  room.clearedStrokes = [];
+  room.redoStack = [];
+  room.background = DEFAULT_CANVAS_BACKGROUND;
+}
+
+// Keeps the finished round's picture so players can still save it after the canvas resets
+function archiveRoundDrawing(room) {
+  if (!room.word || !room.drawer || room.strokes.length === 0) {
+    return;
+  }
+
+  room.roundDrawings = [
+    ...room.roundDrawings,
+    {
+      id: `round_${room.roundNumber}_${Date.now()}`,
+      roundNumber: room.roundNumber,
+      word: room.word,
+      artist: room.drawer,
+      background: room.background,
+      strokes: room.strokes,
+      finishedAt: Date.now()
+    }
+  ].slice(-MAX_ROUND_DRAWINGS);
+}
+
+function normalizeRoundDrawings(rawDrawings) {
+  if (!Array.isArray(rawDrawings)) {
+    return [];
+  }
+
+  return rawDrawings
+    .map((drawing) => {
+      const id = String(drawing?.id || "").trim();
+      const word = String(drawing?.word || "").trim();
+      const artist = String(drawing?.artist || "").trim();
+      const strokes = normalizeStrokeList(drawing?.strokes);
+      if (!id || !word || !artist || strokes.length === 0) {
+        return null;
+      }
+
+      const roundNumber = Number(drawing?.roundNumber);
+      const finishedAt = Number(drawing?.finishedAt);
+      return {
+        id,
+        roundNumber: Number.isFinite(roundNumber) && roundNumber > 0 ? Math.floor(roundNumber) : 1,
+        word,
+        artist,
+        background: sanitizeHexColor(drawing?.background) || DEFAULT_CANVAS_BACKGROUND,
+        strokes,
+        finishedAt: Number.isFinite(finishedAt) ? finishedAt : Date.now()
+      };
+    })
+    .filter(Boolean)
+    .slice(-MAX_ROUND_DRAWINGS);
+}
+
+function maskWord(word, hintIndices = []) {
+  return Array.from(String(word || ""))
+    .map((char, index) => (/[A-Za-z0-9]/.test(char) && !hintIndices.includes(index) ? "_" : char))
+    .join("");
+}
+
+function getLetterIndices(word) {
+  return Array.from(String(word || "")).flatMap((char, index) => (/[A-Za-z0-9]/.test(char) ? [index] : []));
+}
+
+// At most half the letters are ever revealed so there is always something left to guess
+function getMaxHints(word) {
+  return Math.min(HINT_SCHEDULE.length, Math.floor(getLetterIndices(word).length / 2));
+}
+
+function normalizeHintIndices(rawIndices, word) {
+  if (!Array.isArray(rawIndices)) {
+    return [];
+  }
+  const letterIndices = getLetterIndices(word);
+  return [...new Set(rawIndices.map(Number))]
+    .filter((index) => letterIndices.includes(index))
+    .slice(0, getMaxHints(word));
 }
 
 function levenshteinDistance(a, b) {
@@ -241,6 +757,10 @@ function findPlayer(room, username) {
   return room.players.find((player) => player.toLowerCase() === username.toLowerCase()) || null;
 }
 
+function findSpectator(room, username) {
+  return room.spectators.find((spectator) => spectator.toLowerCase() === username.toLowerCase()) || null;
+}
+
 function sanitizeQueue(queue, players) {
   if (!Array.isArray(queue)) {
     return [];
@@ -267,6 +787,8 @@ function sanitizeQueue(queue, players) {
 }
 
 function clearRoundTimeout(roomId) {
+  clearHintTimeout(roomId);
+
   const timeoutHandle = roundTimeouts.get(roomId);
   if (!timeoutHandle) {
     return;
@@ -275,6 +797,15 @@ function clearRoundTimeout(roomId) {
   roundTimeouts.delete(roomId);
 }
 
+function clearHintTimeout(roomId) {
+  const timeoutHandle = hintTimeouts.get(roomId);
+  if (!timeoutHandle) {
+    return;
+  }
+  clearTimeout(timeoutHandle);
+  hintTimeouts.delete(roomId);
+}
+
 function clearChooseWordTimeout(roomId) {
   const timeoutHandle = chooseWordTimeouts.get(roomId);
   if (!timeoutHandle) {
@@ -314,10 +845,52 @@ function appendMessage(room, message) {
   }
 }
 
+// Spectator chat has its own history so it can never push guesses and system messages out of the players' chat
+function appendSpectatorMessage(room, message) {
+  room.spectatorMessages.push(message);
+  if (room.spectatorMessages.length > MAX_SPECTATOR_MESSAGES) {
+    room.spectatorMessages = room.spectatorMessages.slice(room.spectatorMessages.length - MAX_SPECTATOR_MESSAGES);
+  }
+}
+
+function takeTeamMemberFromQueue(queue, members) {
+  const candidates = queue.filter((playerName) => members.includes(playerName));
+  if (candidates.length === 0) {
+    return null;
+  }
+  const pickedPlayer = candidates[randomInt(0, candidates.length)];
+  queue.splice(queue.indexOf(pickedPlayer), 1);
+  return pickedPlayer;
+}
+
+// Teams take turns at the canvas in order; within a team the usual two-pass queues still apply
+function takeNextTeamDrawer(room) {
+  const members = getTeamMembers(room, room.roundsCompleted % room.settings.teamCount);
+  if (members.length === 0) {
+    return null;
+  }
+
+  const pickedPlayer = takeTeamMemberFromQueue(room.firstPassQueue, members)
+    || takeTeamMemberFromQueue(room.secondPassQueue, members);
+  if (pickedPlayer) {
+    return pickedPlayer;
+  }
+
+  room.secondPassQueue = [...room.secondPassQueue, ...members];
+  return takeTeamMemberFromQueue(room.secondPassQueue, members);
+}
+
 function takeNextDrawer(room) {
   room.firstPassQueue = sanitizeQueue(room.firstPassQueue, room.players);
   room.secondPassQueue = sanitizeQueue(room.secondPassQueue, room.players);
 
+  if (room.settings.teamMode) {
+    const teamDrawer = takeNextTeamDrawer(room);
+    if (teamDrawer) {
+      return teamDrawer;
+    }
+  }
+
   if (room.firstPassQueue.length > 0) {
     return pickRandomFromQueue(room.firstPassQueue);
   }
@@ -336,14 +909,15 @@ function takeNextDrawer(room) {
 function enterChoosingWordPhase(room, drawerName) {
   clearRoundTimeout(room.id);
   clearChooseWordTimeout(room.id);
+  clearVote(room, "skip");
 
   room.phase = "choosing_word";
   room.drawer = drawerName;
   room.word = "";
-  room.wordChoices = pickWordChoices(CHOOSE_WORD_OPTIONS);
-  room.strokes = [];
+  room.wordChoices = pickWordChoices(getWordPool(room.settings, room.customWords), room.settings.wordChoiceCount);
+  resetDrawing(room);
   room.guessedPlayers = new Set();
-  room.chooseEndsAt = Date.now() + CHOOSE_WORD_DURATION_MS;
+  room.chooseEndsAt = Date.now() + room.settings.chooseWordDurationSeconds * 1000;
   room.roundEndsAt = 0;
 
   scheduleChooseWordTimeout(room);
@@ -351,33 +925,46 @@ function enterChoosingWordPhase(room, drawerName) {
 
 function startPlayingRound(room, chosenWord, options = {}) {
   clearChooseWordTimeout(room.id);
+  clearVote(room, "skip");
 
   const autoSelected = Boolean(options.autoSelected);
+  const multiplier = getDifficultyMultiplier(chosenWord.difficulty);
 
   room.phase = "playing";
-  room.word = chosenWord;
+  room.word = chosenWord.word;
+  room.wordDifficulty = chosenWord.difficulty;
+  room.hintIndices = [];
   room.wordChoices = [];
-  room.strokes = [];
+  resetDrawing(room);
   room.guessedPlayers = new Set();
   room.chooseEndsAt = 0;
-  room.roundEndsAt = Date.now() + ROUND_DURATION_MS;
+  room.roundEndsAt = Date.now() + room.settings.roundDurationSeconds * 1000;
 
   if (autoSelected && room.drawer) {
     appendMessage(room, buildMessage("system", "System", `${room.drawer} ran out of pick time. A random word was selected.`));
   }
-  appendMessage(room, buildMessage("system", "System", "Round started. Start guessing!"));
+  appendMessage(
+    room,
+    buildMessage("system", "System", `Round started with ${chosenWord.difficulty === "easy" ? "an" : "a"} ${chosenWord.difficulty} word (${multiplier}x points). Start guessing!`)
+  );
   scheduleRoundTimeout(room);
 }
 
 function finishGame(room, reason) {
   clearRoundTimeout(room.id);
   clearChooseWordTimeout(room.id);
+  clearTelephoneTimeout(room.id);
+  clearVote(room, "skip");
+  // A round cut short by the game ending still keeps its picture
+  if (room.phase === "playing") {
+    archiveRoundDrawing(room);
+  }
 
   room.phase = "game_over";
   room.drawer = null;
   room.word = "";
   room.wordChoices = [];
-  room.strokes = [];
+  resetDrawing(room);
   room.guessedPlayers = new Set();
   room.chooseEndsAt = 0;
   room.roundEndsAt = 0;
@@ -387,7 +974,8 @@ function finishGame(room, reason) {
   }
 }
 
-export function removePlayerFromRoom(roomId, username) {
+// Kicks and bans post their own message, so they pass `announceLeave: false`
+export function removePlayerFromRoom(roomId, username, options = {}) {
   const normalizedRoomId = String(roomId || "").trim().toUpperCase();
   const normalizedUsername = String(username || "").trim();
   if (!normalizedRoomId || !normalizedUsername) return;
@@ -395,6 +983,16 @@ export function removePlayerFromRoom(roomId, username) {
   const room = rooms.get(normalizedRoomId);
   if (!room) return;
 
+  // Spectators have no part in the game, so they simply drop off the list
+  const spectator = findSpectator(room, normalizedUsername);
+  if (spectator) {
+    room.spectators = room.spectators.filter((name) => name !== spectator);
+    spectatorChatTimestamps.delete(`${normalizedRoomId}:${spectator.toLowerCase()}`);
+    writePersistedRooms();
+    notifyRoomUpdated(normalizedRoomId);
+    return;
+  }
+
   const playerIndex = room.players.findIndex(
     (p) => p.toLowerCase() === normalizedUsername.toLowerCase()
   );
@@ -404,8 +1002,9 @@ export function removePlayerFromRoom(roomId, username) {
 
   // Remove from players list
   room.players.splice(playerIndex, 1);
-  // Remove from scores
+  // Remove from scores and teams
   delete room.scores[resolvedName];
+  delete room.teamAssignments[resolvedName];
   // Remove from guessedPlayers
   room.guessedPlayers.delete(resolvedName);
   // Remove from draw queues
@@ -415,28 +1014,60 @@ export function removePlayerFromRoom(roomId, username) {
   room.secondPassQueue = room.secondPassQueue.filter(
     (p) => p.toLowerCase() !== resolvedName.toLowerCase()
   );
+  // Drop their votes, and any vote to kick them
+  VOTE_TYPES.forEach((type) => {
+    if (room.votes[type]) {
+      room.votes[type].voters = room.votes[type].voters.filter((p) => p !== resolvedName);
+    }
+  });
+  if (room.votes.kick?.target === resolvedName) {
+    clearVote(room, "kick");
+  }
 
-  appendMessage(room, buildMessage("system", "System", `${resolvedName} left the game.`));
+  if (options.announceLeave !== false) {
+    appendMessage(room, buildMessage("system", "System", `${resolvedName} left the game.`));
+  }
 
   // If no players left, delete the room
   if (room.players.length === 0) {
     clearRoundTimeout(room.id);
     clearChooseWordTimeout(room.id);
+    clearTelephoneTimeout(room.id);
+    VOTE_TYPES.forEach((type) => clearVote(room, type));
     rooms.delete(normalizedRoomId);
     writePersistedRooms();
     notifyRoomUpdated(normalizedRoomId);
     return;
   }
 
-  // If only in lobby or game_over, just notify
-  if (room.phase === "lobby" || room.phase === "game_over") {
+  // If only in lobby, game_over or the telephone reveal, just notify
+  if (room.phase === "lobby" || room.phase === "game_over" || room.phase === "telephone_reveal") {
+    if (resolveKickVoteAfterLeave(room)) {
+      return;
+    }
+    writePersistedRooms();
+    notifyRoomUpdated(normalizedRoomId);
+    return;
+  }
+
+  // Telephone chains keep the leaver's seat and skip it with blank entries; with one player left, reveal what there is
+  if (isTelephoneStepPhase(room.phase)) {
+    if (room.players.length < 2) {
+      enterTelephoneReveal(room);
+    } else {
+      fillMissingTelephoneEntries(room, [resolvedName]);
+      advanceTelephoneIfComplete(room);
+    }
+    if (resolveKickVoteAfterLeave(room)) {
+      return;
+    }
     writePersistedRooms();
     notifyRoomUpdated(normalizedRoomId);
     return;
   }
 
   // Game is in progress — recalculate total rounds
-  const newTotalRounds = computeTotalRounds(room.players.length);
+  const newTotalRounds = resolveTotalRounds(room);
   // Don't increase rounds, only decrease
   if (newTotalRounds < room.totalRounds) {
     room.totalRounds = newTotalRounds;
@@ -460,15 +1091,19 @@ export function removePlayerFromRoom(roomId, username) {
 
   // If the leaving player was the drawer, complete the round early and move on
   if (room.drawer && room.drawer.toLowerCase() === resolvedName.toLowerCase()) {
+    if (room.phase === "playing") {
+      archiveRoundDrawing(room);
+    }
     room.drawer = null;
     clearRoundTimeout(room.id);
     clearChooseWordTimeout(room.id);
+    clearVote(room, "skip");
 
     room.roundEndsAt = 0;
     room.chooseEndsAt = 0;
     room.word = "";
     room.wordChoices = [];
-    room.strokes = [];
+    resetDrawing(room);
     room.guessedPlayers = new Set();
 
     // This drawer leaving counts as a completed round
@@ -491,13 +1126,34 @@ export function removePlayerFromRoom(roomId, username) {
     if (totalGuessers > 0 && room.guessedPlayers.size >= totalGuessers) {
       const revealedWord = room.word;
       completeActiveRound(room, `Round over! Everyone guessed the word ${revealedWord.toUpperCase()}.`);
+    } else if (hasVotePassed(room, "skip")) {
+      // One voter fewer lowers the threshold, so the open skip vote may pass now
+      const revealedWord = room.word;
+      completeActiveRound(room, `Vote passed! Skipped ${room.drawer}'s turn. The word was ${revealedWord.toUpperCase()}.`);
     }
   }
 
+  if (resolveKickVoteAfterLeave(room)) {
+    return;
+  }
   writePersistedRooms();
   notifyRoomUpdated(normalizedRoomId);
 }
 
+// A leaver lowers the threshold too, so an open kick vote may pass without another ballot
+function resolveKickVoteAfterLeave(room) {
+  if (!hasVotePassed(room, "kick")) {
+    return false;
+  }
+
+  // removePlayerFromRoom saves and notifies the room itself
+  const { target } = room.votes.kick;
+  clearVote(room, "kick");
+  appendMessage(room, buildMessage("system", "System", `Vote passed! ${target} was kicked.`));
+  removePlayerFromRoom(room.id, target, { announceLeave: false });
+  return true;
+}
+
 function getTotalGuessers(room) {
   if (!room.drawer) {
     return 0;
@@ -512,19 +1168,21 @@ function completeActiveRound(room, reasonMessage) {
 
   clearRoundTimeout(room.id);
   clearChooseWordTimeout(room.id);
+  clearVote(room, "skip");
+  archiveRoundDrawing(room);
 
   room.roundEndsAt = 0;
   room.chooseEndsAt = 0;
   room.word = "";
   room.wordChoices = [];
-  room.strokes = [];
+  resetDrawing(room);
   room.guessedPlayers = new Set();
 
   if (reasonMessage) {
     appendMessage(room, buildMessage("system", "System", reasonMessage));
   }
 
-  room.roundsCompleted = clampNumber(room.roundsCompleted + 1, 0, room.totalRounds || computeTotalRounds(room.players.length));
+  room.roundsCompleted = clampNumber(room.roundsCompleted + 1, 0, room.totalRounds || resolveTotalRounds(room));
 
   if (room.roundsCompleted >= room.totalRounds) {
     finishGame(room, "Game over! All rounds complete.");
@@ -563,6 +1221,41 @@ function scheduleRoundTimeout(room) {
   }, waitMs + 15);
 
   roundTimeouts.set(room.id, timeoutHandle);
+  scheduleHintTimeout(room);
+}
+
+// Hints are driven by the server so every guesser sees the same letters at the same time
+function scheduleHintTimeout(room) {
+  clearHintTimeout(room.id);
+
+  if (room.phase !== "playing" || room.hintIndices.length >= getMaxHints(room.word)) {
+    return;
+  }
+
+  const roundDurationMs = room.settings.roundDurationSeconds * 1000;
+  const revealAt = room.roundEndsAt - roundDurationMs * HINT_SCHEDULE[room.hintIndices.length];
+  const waitMs = Math.max(0, revealAt - Date.now());
+
+  const timeoutHandle = setTimeout(() => {
+    hintTimeouts.delete(room.id);
+    const latestRoom = rooms.get(room.id);
+    if (!latestRoom || latestRoom.phase !== "playing") {
+      return;
+    }
+
+    const hiddenIndices = getLetterIndices(latestRoom.word).filter((index) => !latestRoom.hintIndices.includes(index));
+    if (hiddenIndices.length === 0) {
+      return;
+    }
+
+    latestRoom.hintIndices = [...latestRoom.hintIndices, hiddenIndices[randomInt(0, hiddenIndices.length)]];
+    appendMessage(latestRoom, buildMessage("system", "System", "Hint: a letter has been revealed!"));
+    scheduleHintTimeout(latestRoom);
+    writePersistedRooms();
+    notifyRoomUpdated(latestRoom.id);
+  }, waitMs);
+
+  hintTimeouts.set(room.id, timeoutHandle);
 }
 
 function scheduleChooseWordTimeout(room) {
@@ -581,12 +1274,15 @@ function scheduleChooseWordTimeout(room) {
     }
 
     if (!Array.isArray(latestRoom.wordChoices) || latestRoom.wordChoices.length === 0) {
-      latestRoom.wordChoices = pickWordChoices(CHOOSE_WORD_OPTIONS);
+      latestRoom.wordChoices = pickWordChoices(
+        getWordPool(latestRoom.settings, latestRoom.customWords),
+        latestRoom.settings.wordChoiceCount
+      );
     }
 
     const pickedWord = latestRoom.wordChoices.length > 0
       ? latestRoom.wordChoices[randomInt(0, latestRoom.wordChoices.length)]
-      : "";
+      : null;
 
     if (!pickedWord) {
       finishGame(latestRoom, "Game over. Unable to start a new round.");
@@ -601,31 +1297,381 @@ function scheduleChooseWordTimeout(room) {
   chooseWordTimeouts.set(room.id, timeoutHandle);
 }
 
-function normalizePersistedRoom(rawRoom) {
-  const roomId = String(rawRoom?.id || "").trim().toUpperCase();
-  const creator = String(rawRoom?.creator || rawRoom?.host || "").trim();
-  if (!roomId || !creator) {
-    return null;
-  }
-
-  const playerNames = Array.isArray(rawRoom?.players)
-    ? rawRoom.players.map((player) => String(player || "").trim()).filter(Boolean)
-    : [];
+function isTelephoneStepPhase(phase) {
+  return TELEPHONE_PHASES.includes(phase) && phase !== "telephone_reveal";
+}
 
-  if (!playerNames.some((player) => player.toLowerCase() === creator.toLowerCase())) {
-    playerNames.unshift(creator);
+function getTelephonePhaseForStep(step) {
+  if (step === 0) {
+    return "telephone_write";
   }
+  return step % 2 === 1 ? "telephone_draw" : "telephone_describe";
+}
 
-  const players = Array.from(new Set(playerNames));
-  if (players.length === 0) {
+// Chains move one seat along per step, so across the game each player adds exactly one entry to every chain
+function getTelephoneChain(telephone, playerName, step) {
+  const seat = telephone.order.findIndex((name) => name.toLowerCase() === playerName.toLowerCase());
+  if (seat === -1) {
     return null;
   }
+  const chainCount = telephone.chains.length;
+  return telephone.chains[(seat - step + chainCount) % chainCount];
+}
 
-  const scores = {};
-  players.forEach((player) => {
-    const scoreValue = Number(rawRoom?.scores?.[player]);
-    scores[player] = Number.isFinite(scoreValue) ? scoreValue : 0;
-  });
+function getPendingTelephonePlayers(room) {
+  const { order, step } = room.telephone;
+  return order.filter((playerName) => getTelephoneChain(room.telephone, playerName, step).entries.length <= step);
+}
+
+function buildBlankTelephoneEntry(room, playerName) {
+  if (room.phase === "telephone_draw") {
+    return { type: "drawing", author: playerName, strokes: [], background: DEFAULT_CANVAS_BACKGROUND };
+  }
+  return { type: "text", author: playerName, text: "" };
+}
+
+function fillMissingTelephoneEntries(room, playerNames) {
+  const pendingPlayers = getPendingTelephonePlayers(room);
+  playerNames
+    .filter((playerName) => pendingPlayers.includes(playerName))
+    .forEach((playerName) => {
+      getTelephoneChain(room.telephone, playerName, room.telephone.step).entries.push(buildBlankTelephoneEntry(room, playerName));
+    });
+}
+
+function startTelephoneGame(room) {
+  const order = shufflePlayers(room.players);
+  room.telephone = {
+    order,
+    chains: order.map((owner, index) => ({ id: `chain_${index + 1}`, owner, entries: [] })),
+    step: 0,
+    stepEndsAt: 0,
+    revealChain: 0,
+    revealStep: 0
+  };
+  enterTelephoneStep(room, 0);
+}
+
+function enterTelephoneStep(room, step) {
+  clearTelephoneTimeout(room.id);
+
+  room.phase = getTelephonePhaseForStep(step);
+  room.telephone.step = step;
+  const durationMs = room.phase === "telephone_draw"
+    ? room.settings.roundDurationSeconds * 1000
+    : TELEPHONE_TEXT_DURATION_MS;
+  room.telephone.stepEndsAt = Date.now() + durationMs;
+
+  // Seats of players who have left are skipped with a blank entry straight away
+  fillMissingTelephoneEntries(
+    room,
+    room.telephone.order.filter((playerName) => !findPlayer(room, playerName))
+  );
+  scheduleTelephoneTimeout(room);
+}
+
+function enterTelephoneReveal(room) {
+  clearTelephoneTimeout(room.id);
+
+  room.phase = "telephone_reveal";
+  room.telephone.stepEndsAt = 0;
+  room.telephone.revealChain = 0;
+  room.telephone.revealStep = 0;
+}
+
+function advanceTelephoneIfComplete(room) {
+  while (isTelephoneStepPhase(room.phase) && getPendingTelephonePlayers(room).length === 0) {
+    const nextStep = room.telephone.step + 1;
+    if (nextStep >= room.telephone.order.length) {
+      enterTelephoneReveal(room);
+      return;
+    }
+    enterTelephoneStep(room, nextStep);
+  }
+}
+
+function submitTelephoneEntry(room, playerName, payload) {
+  const chain = getTelephoneChain(room.telephone, playerName, room.telephone.step);
+  if (!chain) {
+    return { error: "You are not part of this game." };
+  }
+  if (chain.entries.length > room.telephone.step) {
+    return { error: "You already submitted this step." };
+  }
+
+  if (room.phase === "telephone_draw") {
+    chain.entries.push({
+      type: "drawing",
+      author: playerName,
+      strokes: normalizeStrokeList(payload?.strokes).slice(0, MAX_STROKES),
+      background: sanitizeHexColor(payload?.background) || DEFAULT_CANVAS_BACKGROUND
+    });
+    return {};
+  }
+
+  const text = normalizeWordEntry(payload?.text).slice(0, MAX_TELEPHONE_TEXT_LENGTH);
+  if (!text) {
+    return { error: room.phase === "telephone_write" ? "Write a prompt first." : "Describe the drawing first." };
+  }
+  chain.entries.push({ type: "text", author: playerName, text });
+  return {};
+}
+
+function clearTelephoneTimeout(roomId) {
+  const timeoutHandle = telephoneTimeouts.get(roomId);
+  if (!timeoutHandle) {
+    return;
+  }
+  clearTimeout(timeoutHandle);
+  telephoneTimeouts.delete(roomId);
+}
+
+// Clients submit on their own when the timer runs out; after a short grace period anyone still missing gets a blank entry
+function scheduleTelephoneTimeout(room) {
+  clearTelephoneTimeout(room.id);
+
+  if (!isTelephoneStepPhase(room.phase) || !Number.isFinite(room.telephone?.stepEndsAt) || room.telephone.stepEndsAt <= 0) {
+    return;
+  }
+
+  const step = room.telephone.step;
+  const waitMs = Math.max(0, room.telephone.stepEndsAt + TELEPHONE_SUBMIT_GRACE_MS - Date.now());
+
+  const timeoutHandle = setTimeout(() => {
+    telephoneTimeouts.delete(room.id);
+    const latestRoom = rooms.get(room.id);
+    if (!latestRoom || !isTelephoneStepPhase(latestRoom.phase) || latestRoom.telephone.step !== step) {
+      return;
+    }
+
+    fillMissingTelephoneEntries(latestRoom, getPendingTelephonePlayers(latestRoom));
+    advanceTelephoneIfComplete(latestRoom);
+    writePersistedRooms();
+    notifyRoomUpdated(latestRoom.id);
+  }, waitMs);
+
+  telephoneTimeouts.set(room.id, timeoutHandle);
+}
+
+// Each player only sees the entry they are responding to; the reveal shows every chain up to the host's progress
+function serializeTelephone(room, normalizedViewer) {
+  if (!TELEPHONE_PHASES.includes(room.phase) || !room.telephone) {
+    return null;
+  }
+
+  const { order, chains, step, stepEndsAt, revealChain, revealStep } = room.telephone;
+  if (room.phase === "telephone_reveal") {
+    return {
+      step: order.length,
+      stepCount: order.length,
+      stepEndsAt: 0,
+      prompt: null,
+      submitted: true,
+      waitingOn: [],
+      album: chains.slice(0, revealChain + 1).map((chain, index) => ({
+        id: chain.id,
+        owner: chain.owner,
+        entries: index < revealChain ? chain.entries : chain.entries.slice(0, revealStep + 1)
+      })),
+      revealComplete: revealChain >= chains.length
+    };
+  }
+
+  const chain = normalizedViewer ? getTelephoneChain(room.telephone, normalizedViewer, step) : null;
+  return {
+    step,
+    stepCount: order.length,
+    stepEndsAt,
+    prompt: chain && step > 0 ? chain.entries[step - 1] : null,
+    submitted: chain ? chain.entries.length > step : true,
+    waitingOn: getPendingTelephonePlayers(room),
+    album: [],
+    revealComplete: false
+  };
+}
+
+function normalizeTelephoneEntry(rawEntry) {
+  const author = String(rawEntry?.author || "").trim();
+  if (!author) {
+    return null;
+  }
+  if (rawEntry?.type === "drawing") {
+    return {
+      type: "drawing",
+      author,
+      strokes: normalizeStrokeList(rawEntry.strokes).slice(0, MAX_STROKES),
+      background: sanitizeHexColor(rawEntry.background) || DEFAULT_CANVAS_BACKGROUND
+    };
+  }
+  return { type: "text", author, text: normalizeWordEntry(rawEntry?.text).slice(0, MAX_TELEPHONE_TEXT_LENGTH) };
+}
+
+function normalizeTelephone(rawTelephone) {
+  const order = Array.isArray(rawTelephone?.order)
+    ? rawTelephone.order.map((name) => String(name || "").trim()).filter(Boolean)
+    : [];
+  const chains = Array.isArray(rawTelephone?.chains)
+    ? rawTelephone.chains.map((chain, index) => ({
+      id: typeof chain?.id === "string" ? chain.id : `chain_${index + 1}`,
+      owner: String(chain?.owner || "").trim(),
+      entries: Array.isArray(chain?.entries) ? chain.entries.map(normalizeTelephoneEntry).filter(Boolean) : []
+    }))
+    : [];
+  if (order.length < 2 || chains.length !== order.length) {
+    return null;
+  }
+
+  const toInteger = (value) => (Number.isInteger(Number(value)) ? Number(value) : 0);
+  const stepEndsAt = Number(rawTelephone?.stepEndsAt);
+  return {
+    order,
+    chains,
+    step: clampNumber(toInteger(rawTelephone?.step), 0, order.length - 1),
+    stepEndsAt: Number.isFinite(stepEndsAt) && stepEndsAt > 0 ? stepEndsAt : 0,
+    revealChain: clampNumber(toInteger(rawTelephone?.revealChain), 0, chains.length),
+    revealStep: clampNumber(toInteger(rawTelephone?.revealStep), 0, order.length - 1)
+  };
+}
+
+function isBannedFromRoom(room, username) {
+  const normalizedUsername = String(username || "").trim().toLowerCase();
+  return room.bannedPlayers.some((playerName) => playerName.toLowerCase() === normalizedUsername);
+}
+
+function createEmptyVotes() {
+  return { skip: null, kick: null };
+}
+
+function getVoteThreshold(eligibleCount) {
+  return Math.floor(eligibleCount / 2) + 1;
+}
+
+// Everyone but the drawer can vote to skip; everyone but the target can vote to kick
+function getEligibleVoters(room, type) {
+  const excluded = type === "skip" ? room.drawer : room.votes.kick?.target;
+  return room.players.filter((playerName) => playerName.toLowerCase() !== String(excluded || "").toLowerCase());
+}
+
+function clearVote(room, type) {
+  const timeoutKey = `${room.id}:${type}`;
+  const timeoutHandle = voteTimeouts.get(timeoutKey);
+  if (timeoutHandle) {
+    clearTimeout(timeoutHandle);
+    voteTimeouts.delete(timeoutKey);
+  }
+  room.votes[type] = null;
+}
+
+function startVote(room, type, startedBy, details = {}) {
+  clearVote(room, type);
+
+  const now = Date.now();
+  room.votes[type] = { ...details, startedBy, voters: [startedBy], endsAt: now + VOTE_DURATION_MS };
+  room.voteCooldowns[type] = now + VOTE_COOLDOWN_MS;
+  scheduleVoteTimeout(room, type);
+}
+
+function hasVotePassed(room, type) {
+  const vote = room.votes[type];
+  if (!vote || (type === "skip" && vote.target !== room.drawer)) {
+    return false;
+  }
+  return vote.voters.length >= getVoteThreshold(getEligibleVoters(room, type).length);
+}
+
+function scheduleVoteTimeout(room, type) {
+  const timeoutKey = `${room.id}:${type}`;
+  const vote = room.votes[type];
+  if (!vote) {
+    return;
+  }
+
+  const timeoutHandle = setTimeout(() => {
+    voteTimeouts.delete(timeoutKey);
+    const latestRoom = rooms.get(room.id);
+    if (!latestRoom || latestRoom.votes[type] !== vote) {
+      return;
+    }
+
+    latestRoom.votes[type] = null;
+    appendMessage(
+      latestRoom,
+      buildMessage("system", "System", type === "skip" ? "The vote to skip failed." : `The vote to kick ${vote.target} failed.`)
+    );
+    writePersistedRooms();
+    notifyRoomUpdated(latestRoom.id);
+  }, Math.max(0, vote.endsAt - Date.now()));
+
+  voteTimeouts.set(timeoutKey, timeoutHandle);
+}
+
+function serializeVotes(room, normalizedViewer) {
+  const serialized = {};
+  VOTE_TYPES.forEach((type) => {
+    const vote = room.votes[type];
+    serialized[type] = vote
+      ? {
+        startedBy: vote.startedBy,
+        target: vote.target,
+        votes: vote.voters.length,
+        needed: getVoteThreshold(getEligibleVoters(room, type).length),
+        endsAt: vote.endsAt,
+        hasVoted: vote.voters.some((playerName) => playerName.toLowerCase() === normalizedViewer)
+      }
+      : null;
+  });
+  return { ...serialized, cooldowns: { ...room.voteCooldowns } };
+}
+
+function normalizePersistedMessage(rawMessage) {
+  const text = String(rawMessage?.text || "").trim();
+  if (!text) {
+    return null;
+  }
+
+  const messageType = rawMessage?.type === "guess" || rawMessage?.type === "success"
+    ? rawMessage.type
+    : "system";
+
+  const privateTo = typeof rawMessage?.privateTo === "string" && rawMessage.privateTo.trim()
+    ? rawMessage.privateTo.trim()
+    : null;
+
+  return {
+    id: typeof rawMessage?.id === "string" ? rawMessage.id : `msg_${Date.now()}_${randomInt(1000, 9999)}`,
+    type: messageType,
+    username: String(rawMessage?.username || "System").trim() || "System",
+    text,
+    ts: Number.isFinite(Number(rawMessage?.ts)) ? Number(rawMessage.ts) : Date.now(),
+    privateTo
+  };
+}
+
+function normalizePersistedRoom(rawRoom) {
+  const roomId = String(rawRoom?.id || "").trim().toUpperCase();
+  const creator = String(rawRoom?.creator || rawRoom?.host || "").trim();
+  if (!roomId || !creator) {
+    return null;
+  }
+
+  const playerNames = Array.isArray(rawRoom?.players)
+    ? rawRoom.players.map((player) => String(player || "").trim()).filter(Boolean)
+    : [];
+
+  if (!playerNames.some((player) => player.toLowerCase() === creator.toLowerCase())) {
+    playerNames.unshift(creator);
+  }
+
+  const players = Array.from(new Set(playerNames));
+  if (players.length === 0) {
+    return null;
+  }
+
+  const scores = {};
+  players.forEach((player) => {
+    const scoreValue = Number(rawRoom?.scores?.[player]);
+    scores[player] = Number.isFinite(scoreValue) ? scoreValue : 0;
+  });
 
   const guessedPlayersArray = Array.isArray(rawRoom?.guessedPlayers)
     ? rawRoom.guessedPlayers
@@ -636,48 +1682,35 @@ function normalizePersistedRoom(rawRoom) {
   const guessedPlayers = new Set(guessedPlayersArray);
 
   const messages = Array.isArray(rawRoom?.messages)
-    ? rawRoom.messages
-      .map((message) => {
-        const text = String(message?.text || "").trim();
-        if (!text) {
-          return null;
-        }
-
-        const messageType = message?.type === "guess" || message?.type === "success"
-          ? message.type
-          : "system";
-
-        const privateTo = typeof message?.privateTo === "string" && message.privateTo.trim()
-          ? message.privateTo.trim()
-          : null;
-
-        return {
-          id: typeof message?.id === "string" ? message.id : `msg_${Date.now()}_${randomInt(1000, 9999)}`,
-          type: messageType,
-          username: String(message?.username || "System").trim() || "System",
-          text,
-          ts: Number.isFinite(Number(message?.ts)) ? Number(message.ts) : Date.now(),
-          privateTo
-        };
-      })
+    ? rawRoom.messages.map(normalizePersistedMessage).filter(Boolean)
+    : [];
+  const spectatorMessages = Array.isArray(rawRoom?.spectatorMessages)
+    ? rawRoom.spectatorMessages
+      .map(normalizePersistedMessage)
       .filter(Boolean)
+      .map((message) => ({ ...message, type: "spectator" }))
+      .slice(-MAX_SPECTATOR_MESSAGES)
     : [];
 
-  const strokes = Array.isArray(rawRoom?.strokes)
-    ? rawRoom.strokes
-      .map((stroke) => {
-        const mode = stroke?.mode === "fill" ? "fill" : "stroke";
-        const points = sanitizePoints(stroke?.points);
-        if (mode === "stroke" && points.length < 2) {
-          return null;
+  const strokes = normalizeStrokeList(rawRoom?.strokes);
+  const clearedStrokes = Array.isArray(rawRoom?.clearedStrokes)
+    ? rawRoom.clearedStrokes
+      .map((entry) => normalizeStrokeList(entry))
+      .filter((entry) => entry.length > 0)
+      .slice(-MAX_CLEAR_HISTORY)
+    : [];
+  const redoStack = Array.isArray(rawRoom?.redoStack)
+    ? rawRoom.redoStack
+      .map((entry) => {
+        if (entry?.type === "clear") {
+          return { type: "clear" };
         }
-        return {
-          id: typeof stroke?.id === "string" ? stroke.id : `stroke_${Date.now()}_${randomInt(1000, 9999)}`,
-          mode,
-          color: typeof stroke?.color === "string" ? stroke.color : "#f55a42",
-          size: clampNumber(Number(stroke?.size) || 4, 1, 24),
-          points
-        };
+        if (entry?.type === "group") {
+          const strokes = normalizeStrokeList(entry.strokes);
+          return strokes.length > 0 ? { type: "group", strokes } : null;
+        }
+        const [stroke] = normalizeStrokeList([entry?.stroke]);
+        return stroke ? { type: "stroke", stroke } : null;
       })
       .filter(Boolean)
     : [];
@@ -685,25 +1718,30 @@ function normalizePersistedRoom(rawRoom) {
   const drawerCandidate = String(rawRoom?.drawer || "").trim();
   const drawer = players.find((player) => player.toLowerCase() === drawerCandidate.toLowerCase()) || null;
 
-  const phase = rawRoom?.phase === "playing" || rawRoom?.phase === "choosing_word" || rawRoom?.phase === "game_over"
+  // A telephone game can only be resumed if its chains survived the reload
+  const telephone = TELEPHONE_PHASES.includes(rawRoom?.phase) ? normalizeTelephone(rawRoom?.telephone) : null;
+  const phase = rawRoom?.phase === "playing" || rawRoom?.phase === "choosing_word" || rawRoom?.phase === "game_over" || telephone
     ? rawRoom.phase
     : "lobby";
 
+  const settings = normalizeRoomSettings(rawRoom?.settings);
+  const customWords = normalizeCustomWords(rawRoom?.customWords);
+
   let wordChoices = Array.isArray(rawRoom?.wordChoices)
     ? rawRoom.wordChoices
-      .map((word) => String(word || "").trim())
+      .map(normalizeWordChoice)
       .filter(Boolean)
-      .slice(0, CHOOSE_WORD_OPTIONS)
+      .slice(0, settings.wordChoiceCount)
     : [];
 
   if (phase === "choosing_word" && wordChoices.length === 0) {
-    wordChoices = pickWordChoices(CHOOSE_WORD_OPTIONS);
+    wordChoices = pickWordChoices(getWordPool(settings, customWords), settings.wordChoiceCount);
   }
 
   const totalRoundsFromStore = Number(rawRoom?.totalRounds);
   const totalRounds = Number.isFinite(totalRoundsFromStore) && totalRoundsFromStore > 0
     ? Math.floor(totalRoundsFromStore)
-    : computeTotalRounds(players.length);
+    : settings.roundCount || computeTotalRounds(players.length);
 
   const roundsCompletedFromStore = Number(rawRoom?.roundsCompleted);
   const roundsCompleted = clampNumber(
@@ -725,6 +1763,22 @@ function normalizePersistedRoom(rawRoom) {
   const roundEndsAtRaw = Number(rawRoom?.roundEndsAt);
   const roundEndsAt = Number.isFinite(roundEndsAtRaw) && roundEndsAtRaw > 0 ? roundEndsAtRaw : 0;
 
+  const spectators = Array.isArray(rawRoom?.spectators)
+    ? Array.from(new Set(rawRoom.spectators.map((spectator) => String(spectator || "").trim()).filter(Boolean)))
+      .filter((spectator) => !players.some((player) => player.toLowerCase() === spectator.toLowerCase()))
+    : [];
+
+  const teamAssignments = normalizeTeamAssignments(rawRoom?.teamAssignments, players, settings.teamCount);
+  // Rooms saved before team totals were tracked start from their current members' scores
+  const teamScores = createEmptyTeamScores().map((_, teamIndex) => {
+    const score = Array.isArray(rawRoom?.teamScores)
+      ? Number(rawRoom.teamScores[teamIndex])
+      : players
+        .filter((playerName) => teamAssignments[playerName] === teamIndex)
+        .reduce((total, playerName) => total + (scores[playerName] || 0), 0);
+    return Number.isFinite(score) ? Math.max(0, Math.round(score)) : 0;
+  });
+
   const firstPassQueue = sanitizeQueue(rawRoom?.firstPassQueue, players);
   const secondPassQueue = sanitizeQueue(rawRoom?.secondPassQueue, players);
 
@@ -735,12 +1789,34 @@ function normalizePersistedRoom(rawRoom) {
     host: creator,
     drawer,
     word: typeof rawRoom?.word === "string" ? rawRoom.word : "",
+    wordDifficulty: WORD_DIFFICULTIES.includes(rawRoom?.wordDifficulty)
+      ? rawRoom.wordDifficulty
+      : normalizeWordChoice(rawRoom?.word)?.difficulty || "medium",
+    hintIndices: normalizeHintIndices(rawRoom?.hintIndices, rawRoom?.word),
     wordChoices,
     players,
     scores,
+    teamAssignments,
+    teamScores,
     guessedPlayers,
     messages,
+    spectatorMessages,
     strokes,
+    clearedStrokes,
+    redoStack,
+    roundDrawings: normalizeRoundDrawings(rawRoom?.roundDrawings),
+    telephone,
+    // Vote timers do not survive a restart, so open votes are dropped
+    votes: createEmptyVotes(),
+    voteCooldowns: { skip: 0, kick: 0 },
+    bannedPlayers: Array.isArray(rawRoom?.bannedPlayers)
+      ? Array.from(new Set(rawRoom.bannedPlayers.map((player) => String(player || "").trim()).filter(Boolean)))
+      : [],
+    locked: rawRoom?.locked === true,
+    spectators,
+    background: sanitizeHexColor(rawRoom?.background) || DEFAULT_CANVAS_BACKGROUND,
+    settings,
+    customWords,
     chooseEndsAt,
     roundEndsAt,
     roundNumber,
@@ -820,15 +1896,21 @@ function serializeRoom(room, viewerUsername = "") {
   const normalizedViewer = String(viewerUsername || "").trim().toLowerCase();
   const isDrawer = normalizedViewer && room.drawer?.toLowerCase() === normalizedViewer;
   const hostName = room.creator || room.host;
+  const isHost = normalizedViewer && hostName.toLowerCase() === normalizedViewer;
+  const isSpectator = room.spectators.some((spectator) => spectator.toLowerCase() === normalizedViewer);
   const canDraw = room.phase === "playing" && Boolean(isDrawer);
   const wordChoices = room.phase === "choosing_word" && isDrawer
-    ? [...room.wordChoices]
+    ? room.wordChoices.map((choice) => ({ ...choice, multiplier: getDifficultyMultiplier(choice.difficulty) }))
     : [];
   const wordDisplay = room.phase === "playing"
-    ? (isDrawer ? room.word : maskWord(room.word))
+    ? (isDrawer ? room.word : maskWord(room.word, room.hintIndices))
     : "";
 
-  const visibleMessages = room.messages
+  // Spectator chat stays among spectators so nobody can pass the word to the guessers
+  const sourceMessages = isSpectator
+    ? [...room.messages, ...room.spectatorMessages].sort((a, b) => a.ts - b.ts)
+    : room.messages;
+  const visibleMessages = sourceMessages
     .filter((message) => !message.privateTo || message.privateTo.toLowerCase() === normalizedViewer)
     .map((message) => ({
       id: message.id,
@@ -846,6 +1928,8 @@ function serializeRoom(room, viewerUsername = "") {
     players: [...room.players]
       .map((name) => ({ name, score: room.scores[name] || 0 }))
       .sort((left, right) => right.score - left.score),
+    teams: buildTeams(room),
+    spectators: [...room.spectators],
     wordDisplay,
     wordChoices,
     canDraw,
@@ -855,11 +1939,29 @@ function serializeRoom(room, viewerUsername = "") {
       ...stroke,
       points: stroke.points.map((point) => ({ ...point }))
     })),
+    background: room.background,
+    canUndo: canDraw && (room.strokes.length > 0 || room.clearedStrokes.length > 0),
+    canRedo: canDraw && room.redoStack.length > 0,
+    roundDrawings: room.roundDrawings.map((drawing) => ({
+      id: drawing.id,
+      roundNumber: drawing.roundNumber,
+      word: drawing.word,
+      artist: drawing.artist
+    })),
+    settings: { ...room.settings },
+    // Only the host sees the list itself so nobody else learns the words ahead of time
+    customWords: isHost ? [...room.customWords] : [],
+    customWordCount: room.customWords.length,
     chooseEndsAt: room.phase === "choosing_word" ? room.chooseEndsAt : 0,
     roundEndsAt: room.phase === "playing" ? room.roundEndsAt : 0,
     roundNumber: room.roundNumber,
     totalRounds: room.totalRounds,
-    roundsCompleted: room.roundsCompleted
+    roundsCompleted: room.roundsCompleted,
+    telephone: serializeTelephone(room, normalizedViewer),
+    votes: serializeVotes(room, normalizedViewer),
+    locked: room.locked,
+    // Only the host manages the ban list
+    bannedPlayers: isHost ? [...room.bannedPlayers] : []
   };
 }
 
@@ -877,6 +1979,59 @@ export function getRoomSnapshot(roomId, viewerUsername = "") {
   return serializeRoom(room, viewerUsername);
 }
 
+// Lets the socket layer tell a client that was kicked apart from one whose room is gone
+export function isRoomMember(roomId, username) {
+  const room = rooms.get(String(roomId || "").trim().toUpperCase());
+  const normalizedUsername = String(username || "").trim();
+  return Boolean(room) && Boolean(findPlayer(room, normalizedUsername) || findSpectator(room, normalizedUsername));
+}
+
+// Validates an in-progress stroke segment sent over the socket by the drawer.
+// Returns the segment to relay to the rest of the room, or null when it should be dropped.
+export function normalizeStrokeDelta(roomId, username, payload) {
+  const normalizedRoomId = String(roomId || "").trim().toUpperCase();
+  const room = rooms.get(normalizedRoomId);
+  if (!room || room.phase !== "playing") {
+    return null;
+  }
+
+  const resolvedPlayer = findPlayer(room, String(username || "").trim());
+  if (!resolvedPlayer || room.drawer?.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    return null;
+  }
+
+  const strokeId = sanitizeStrokeId(payload?.strokeId);
+  if (!strokeId || room.strokes.some((stroke) => stroke.id === strokeId)) {
+    return null;
+  }
+
+  const startIndex = Math.floor(Number(payload?.index));
+  const points = sanitizePoints(payload?.points).slice(0, MAX_STROKE_DELTA_POINTS);
+  const color = sanitizeHexColor(payload?.color);
+  if (!Number.isFinite(startIndex) || startIndex < 0 || points.length === 0 || !color) {
+    return null;
+  }
+
+  return {
+    strokeId,
+    index: startIndex,
+    color,
+    size: clampNumber(Number(payload?.size) || 4, 1, 24),
+    opacity: sanitizeOpacity(payload?.opacity),
+    points
+  };
+}
+
+// Checks that a cancel notice for a streamed stroke comes from the current drawer.
+export function canCancelStroke(roomId, username) {
+  const room = rooms.get(String(roomId || "").trim().toUpperCase());
+  if (!room || room.phase !== "playing") {
+    return false;
+  }
+  const resolvedPlayer = findPlayer(room, String(username || "").trim());
+  return Boolean(resolvedPlayer) && room.drawer?.toLowerCase() === resolvedPlayer.toLowerCase();
+}
+
 function recoverRunningRoundsAfterBoot() {
   let changed = false;
 
@@ -893,6 +2048,12 @@ function recoverRunningRoundsAfterBoot() {
       return;
     }
 
+    // An expired telephone step fires straight away and fills in whoever is missing
+    if (isTelephoneStepPhase(room.phase)) {
+      scheduleTelephoneTimeout(room);
+      return;
+    }
+
     if (room.phase !== "choosing_word") {
       return;
     }
@@ -903,12 +2064,12 @@ function recoverRunningRoundsAfterBoot() {
     }
 
     if (!Array.isArray(room.wordChoices) || room.wordChoices.length === 0) {
-      room.wordChoices = pickWordChoices(CHOOSE_WORD_OPTIONS);
+      room.wordChoices = pickWordChoices(getWordPool(room.settings, room.customWords), room.settings.wordChoiceCount);
     }
 
     const pickedWord = room.wordChoices.length > 0
       ? room.wordChoices[randomInt(0, room.wordChoices.length)]
-      : "";
+      : null;
     if (!pickedWord) {
       finishGame(room, "Game over. Unable to start a new round.");
     } else {
@@ -963,6 +2124,35 @@ router.get("/:roomId", (req, res) => {
   res.json(serializeRoom(room, username));
 });
 
+router.get("/:roomId/drawings/:drawingId", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const drawingId = String(req.params.drawingId || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+
+  const drawing = room.roundDrawings.find((entry) => entry.id === drawingId);
+  if (!drawing) {
+    res.status(404).json({ error: "Drawing not found." });
+    return;
+  }
+
+  res.json({
+    id: drawing.id,
+    roundNumber: drawing.roundNumber,
+    word: drawing.word,
+    artist: drawing.artist,
+    background: drawing.background,
+    strokes: drawing.strokes.map((stroke) => ({
+      ...stroke,
+      points: stroke.points.map((point) => ({ ...point }))
+    }))
+  });
+});
+
 router.post("/create", (req, res) => {
   const username = String(req.body?.username || "").trim();
 
@@ -979,12 +2169,29 @@ router.post("/create", (req, res) => {
     host: username,
     drawer: null,
     word: "",
+    wordDifficulty: "medium",
+    hintIndices: [],
     wordChoices: [],
     players: [username],
     scores: { [username]: 0 },
+    teamAssignments: { [username]: 0 },
+    teamScores: createEmptyTeamScores(),
     guessedPlayers: new Set(),
     messages: [],
+    spectatorMessages: [],
     strokes: [],
+    clearedStrokes: [],
+    redoStack: [],
+    roundDrawings: [],
+    telephone: null,
+    votes: createEmptyVotes(),
+    voteCooldowns: { skip: 0, kick: 0 },
+    bannedPlayers: [],
+    locked: false,
+    spectators: [],
+    background: DEFAULT_CANVAS_BACKGROUND,
+    settings: normalizeRoomSettings(null),
+    customWords: [],
     chooseEndsAt: 0,
     roundEndsAt: 0,
     roundNumber: 1,
@@ -1016,17 +2223,30 @@ router.post("/join", (req, res) => {
     return;
   }
 
-  const existingPlayer = findPlayer(room, username);
-  const resolvedPlayerName = existingPlayer || username;
+  if (isBannedFromRoom(room, username)) {
+    res.status(403).json({ error: "You are banned from this room." });
+    return;
+  }
+
+  const existingMember = findPlayer(room, username) || findSpectator(room, username);
+  const resolvedPlayerName = existingMember || username;
 
-  if (!existingPlayer && room.phase !== "lobby") {
-    res.status(400).json({ error: "Game already started. New players cannot join now." });
+  // Players and spectators already in the room can still reconnect while it is locked
+  if (!existingMember && room.locked) {
+    res.status(403).json({ error: "This room is locked." });
     return;
   }
 
-  if (!existingPlayer) {
+  // Once a game is running, newcomers can only watch until the next lobby
+  if (!existingMember && (req.body?.spectate === true || room.phase !== "lobby")) {
+    room.spectators.push(username);
+    appendMessage(room, buildMessage("system", "System", `${username} is now spectating.`));
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+  } else if (!existingMember) {
     room.players.push(username);
     room.scores[username] = room.scores[username] || 0;
+    assignToSmallestTeam(room, username);
     writePersistedRooms();
     notifyRoomUpdated(roomId);
   }
@@ -1070,18 +2290,54 @@ router.post("/:roomId/start", (req, res) => {
     return;
   }
 
+  if (room.settings.gameMode === "telephone") {
+    room.players.forEach((playerName) => {
+      room.scores[playerName] = 0;
+    });
+    room.messages = [];
+    room.drawer = null;
+    room.word = "";
+    room.wordChoices = [];
+    resetDrawing(room);
+    room.roundDrawings = [];
+    room.guessedPlayers = new Set();
+    room.chooseEndsAt = 0;
+    room.roundEndsAt = 0;
+
+    startTelephoneGame(room);
+    appendMessage(room, buildMessage("system", "System", "Telephone started! Write a prompt for the next player to draw."));
+
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+
+    res.json(serializeRoom(room, resolvedPlayer));
+    return;
+  }
+
+  if (getWordPool(room.settings, room.customWords).length === 0) {
+    res.status(400).json({ error: "Add some custom words or pick another word source." });
+    return;
+  }
+  if (room.settings.teamMode && buildTeams(room).some((team) => team.players.length === 0)) {
+    res.status(400).json({ error: "Every team needs at least one player." });
+    return;
+  }
+
   room.players.forEach((playerName) => {
     room.scores[playerName] = 0;
   });
+  room.teamScores = createEmptyTeamScores();
 
   const firstPassOrder = [...room.players];
-  const pickedDrawer = pickRandomFromQueue(firstPassOrder);
+  const pickedDrawer = room.settings.teamMode
+    ? takeTeamMemberFromQueue(firstPassOrder, getTeamMembers(room, 0))
+    : pickRandomFromQueue(firstPassOrder);
   if (!pickedDrawer) {
     res.status(500).json({ error: "Unable to select a drawer." });
     return;
   }
 
-  room.totalRounds = computeTotalRounds(room.players.length);
+  room.totalRounds = resolveTotalRounds(room);
   room.roundsCompleted = 0;
   room.roundNumber = 1;
   room.firstPassQueue = firstPassOrder;
@@ -1089,10 +2345,12 @@ router.post("/:roomId/start", (req, res) => {
   room.messages = [];
   room.word = "";
   room.wordChoices = [];
-  room.strokes = [];
+  resetDrawing(room);
+  room.roundDrawings = [];
   room.guessedPlayers = new Set();
   room.chooseEndsAt = 0;
   room.roundEndsAt = 0;
+  room.telephone = null;
 
   enterChoosingWordPhase(room, pickedDrawer);
 
@@ -1102,22 +2360,22 @@ router.post("/:roomId/start", (req, res) => {
   res.json(serializeRoom(room, resolvedPlayer));
 });
 
-router.post("/:roomId/choose-word", (req, res) => {
+// Brings a finished room back to the lobby so the same group can play again and spectators can take a seat
+router.post("/:roomId/lobby", (req, res) => {
   const roomId = String(req.params.roomId || "").trim().toUpperCase();
   const username = String(req.body?.username || "").trim();
-  const selectedWordInput = String(req.body?.word || "").trim().toLowerCase();
   const room = rooms.get(roomId);
 
   if (!room) {
     res.status(404).json({ error: "Room not found." });
     return;
   }
-  if (!username || !selectedWordInput) {
-    res.status(400).json({ error: "Username and word are required." });
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
     return;
   }
-  if (room.phase !== "choosing_word") {
-    res.status(400).json({ error: "Word selection is not active." });
+  if (room.phase !== "game_over" && room.phase !== "telephone_reveal") {
+    res.status(400).json({ error: "The game has not finished yet." });
     return;
   }
 
@@ -1126,25 +2384,741 @@ router.post("/:roomId/choose-word", (req, res) => {
     res.status(403).json({ error: "You are not in this room." });
     return;
   }
-  if (room.drawer?.toLowerCase() !== resolvedPlayer.toLowerCase()) {
-    res.status(403).json({ error: "Only the drawer can choose the word." });
-    return;
-  }
-
-  const chosenWord = room.wordChoices.find((word) => word.toLowerCase() === selectedWordInput);
-  if (!chosenWord) {
-    res.status(400).json({ error: "Chosen word is not available." });
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can return the room to the lobby." });
     return;
   }
 
-  startPlayingRound(room, chosenWord);
+  clearRoundTimeout(room.id);
+  clearChooseWordTimeout(room.id);
+  clearTelephoneTimeout(room.id);
+  VOTE_TYPES.forEach((type) => clearVote(room, type));
 
-  writePersistedRooms();
+  room.players.forEach((playerName) => {
+    room.scores[playerName] = 0;
+  });
+  room.teamScores = createEmptyTeamScores();
+  room.phase = "lobby";
+  room.drawer = null;
+  room.word = "";
+  room.hintIndices = [];
+  room.wordChoices = [];
+  resetDrawing(room);
+  room.roundDrawings = [];
+  room.guessedPlayers = new Set();
+  room.chooseEndsAt = 0;
+  room.roundEndsAt = 0;
+  room.roundNumber = 1;
+  room.totalRounds = 0;
+  room.roundsCompleted = 0;
+  room.firstPassQueue = [];
+  room.secondPassQueue = [];
+  room.telephone = null;
+  appendMessage(room, buildMessage("system", "System", "The host brought everyone back to the lobby."));
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/settings", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (room.phase !== "lobby") {
+    res.status(400).json({ error: "Settings can only be changed in the lobby." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can change the settings." });
+    return;
+  }
+
+  const { settings, error } = validateRoomSettings(req.body?.settings, room.settings);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const teamsChanged = settings.teamMode !== room.settings.teamMode || settings.teamCount !== room.settings.teamCount;
+  room.settings = settings;
+  if (teamsChanged) {
+    balanceTeams(room);
+  }
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/teams", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (room.phase !== "lobby") {
+    res.status(400).json({ error: "Teams can only be changed in the lobby." });
+    return;
+  }
+  if (!room.settings.teamMode) {
+    res.status(400).json({ error: "Team mode is off." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can change the teams." });
+    return;
+  }
+
+  if (req.body?.balance === true) {
+    balanceTeams(room);
+  } else {
+    const targetPlayer = findPlayer(room, String(req.body?.player || "").trim());
+    if (!targetPlayer) {
+      res.status(400).json({ error: "Player not found." });
+      return;
+    }
+    const teamIndex = Number(req.body?.team);
+    if (!Number.isInteger(teamIndex) || teamIndex < 0 || teamIndex >= room.settings.teamCount) {
+      res.status(400).json({ error: `Team must be one of ${TEAM_NAMES.slice(0, room.settings.teamCount).join(", ")}.` });
+      return;
+    }
+    room.teamAssignments[targetPlayer] = teamIndex;
+  }
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/words", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (room.phase !== "lobby") {
+    res.status(400).json({ error: "Words can only be changed in the lobby." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can change the word list." });
+    return;
+  }
+
+  const { words, error } = parseCustomWords(req.body?.words);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  room.customWords = words;
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/choose-word", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const selectedWordInput = String(req.body?.word || "").trim().toLowerCase();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !selectedWordInput) {
+    res.status(400).json({ error: "Username and word are required." });
+    return;
+  }
+  if (room.phase !== "choosing_word") {
+    res.status(400).json({ error: "Word selection is not active." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  if (room.drawer?.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the drawer can choose the word." });
+    return;
+  }
+
+  const chosenWord = room.wordChoices.find((choice) => choice.word.toLowerCase() === selectedWordInput);
+  if (!chosenWord) {
+    res.status(400).json({ error: "Chosen word is not available." });
+    return;
+  }
+
+  startPlayingRound(room, chosenWord);
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/telephone/submit", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (!isTelephoneStepPhase(room.phase)) {
+    res.status(400).json({ error: "Telephone is not accepting entries right now." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+
+  const result = submitTelephoneEntry(room, resolvedPlayer, req.body);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  advanceTelephoneIfComplete(room);
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/telephone/reveal", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (room.phase !== "telephone_reveal") {
+    res.status(400).json({ error: "The album is not being revealed." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can reveal the album." });
+    return;
+  }
+
+  // Step through the current chain, then move on to the next one
+  const { telephone } = room;
+  if (telephone.revealChain >= telephone.chains.length) {
+    res.status(400).json({ error: "Every chain has been revealed." });
+    return;
+  }
+  if (telephone.revealStep < telephone.chains[telephone.revealChain].entries.length - 1) {
+    telephone.revealStep += 1;
+  } else {
+    telephone.revealChain += 1;
+    telephone.revealStep = 0;
+  }
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/votes/skip", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (room.phase !== "playing") {
+    res.status(400).json({ error: "You can only vote to skip during a round." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  if (room.drawer?.toLowerCase() === resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "The drawer cannot vote to skip." });
+    return;
+  }
+
+  // A skip vote only ever counts against the drawer it was started for
+  if (room.votes.skip && room.votes.skip.target !== room.drawer) {
+    clearVote(room, "skip");
+  }
+
+  const activeVote = room.votes.skip;
+  if (activeVote?.voters.includes(resolvedPlayer)) {
+    res.status(400).json({ error: "You already voted." });
+    return;
+  }
+  if (activeVote) {
+    activeVote.voters.push(resolvedPlayer);
+  } else {
+    if (room.voteCooldowns.skip > Date.now()) {
+      res.status(400).json({ error: "Please wait before starting another skip vote." });
+      return;
+    }
+    startVote(room, "skip", resolvedPlayer, { target: room.drawer });
+    appendMessage(room, buildMessage("system", "System", `${resolvedPlayer} started a vote to skip ${room.drawer}'s turn.`));
+  }
+
+  if (hasVotePassed(room, "skip")) {
+    const skippedDrawer = room.drawer;
+    const revealedWord = room.word;
+    completeActiveRound(room, `Vote passed! Skipped ${skippedDrawer}'s turn. The word was ${revealedWord.toUpperCase()}.`);
+  }
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/votes/kick", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const targetInput = String(req.body?.target || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !targetInput) {
+    res.status(400).json({ error: "Username and target are required." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const target = findPlayer(room, targetInput);
+  if (!target) {
+    res.status(404).json({ error: "Player not found." });
+    return;
+  }
+  if (target === resolvedPlayer) {
+    res.status(400).json({ error: "You cannot vote to kick yourself." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() === target.toLowerCase()) {
+    res.status(403).json({ error: "The host cannot be vote-kicked." });
+    return;
+  }
+  if (room.players.length < MIN_KICK_VOTE_PLAYERS) {
+    res.status(400).json({ error: `Kick votes need at least ${MIN_KICK_VOTE_PLAYERS} players.` });
+    return;
+  }
+
+  const activeVote = room.votes.kick;
+  if (activeVote && activeVote.target !== target) {
+    res.status(400).json({ error: `A vote to kick ${activeVote.target} is already running.` });
+    return;
+  }
+  if (activeVote?.voters.includes(resolvedPlayer)) {
+    res.status(400).json({ error: "You already voted." });
+    return;
+  }
+  if (activeVote) {
+    activeVote.voters.push(resolvedPlayer);
+  } else {
+    if (room.voteCooldowns.kick > Date.now()) {
+      res.status(400).json({ error: "Please wait before starting another kick vote." });
+      return;
+    }
+    startVote(room, "kick", resolvedPlayer, { target });
+    appendMessage(room, buildMessage("system", "System", `${resolvedPlayer} started a vote to kick ${target}.`));
+  }
+
+  // removePlayerFromRoom saves and notifies the room itself
+  if (hasVotePassed(room, "kick")) {
+    clearVote(room, "kick");
+    appendMessage(room, buildMessage("system", "System", `Vote passed! ${target} was kicked.`));
+    removePlayerFromRoom(roomId, target, { announceLeave: false });
+  } else {
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+  }
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/kick", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const playerInput = String(req.body?.player || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !playerInput) {
+    res.status(400).json({ error: "Username and player are required." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can kick players." });
+    return;
+  }
+
+  const target = findPlayer(room, playerInput) || findSpectator(room, playerInput);
+  if (!target) {
+    res.status(404).json({ error: "Player not found." });
+    return;
+  }
+  if (target === resolvedPlayer) {
+    res.status(400).json({ error: "You cannot kick yourself." });
+    return;
+  }
+
+  // removePlayerFromRoom saves and notifies the room itself
+  appendMessage(room, buildMessage("system", "System", `${target} was kicked by the host.`));
+  removePlayerFromRoom(roomId, target, { announceLeave: false });
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/ban", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const playerInput = String(req.body?.player || "").trim();
+  const shouldBan = req.body?.banned !== false;
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !playerInput) {
+    res.status(400).json({ error: "Username and player are required." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can ban players." });
+    return;
+  }
+  if (playerInput.toLowerCase() === resolvedPlayer.toLowerCase()) {
+    res.status(400).json({ error: "You cannot ban yourself." });
+    return;
+  }
+
+  // Unbanning only lifts the ban; the player can then join again like anyone else
+  if (!shouldBan) {
+    if (!isBannedFromRoom(room, playerInput)) {
+      res.status(400).json({ error: "That name is not banned." });
+      return;
+    }
+    room.bannedPlayers = room.bannedPlayers.filter((playerName) => playerName.toLowerCase() !== playerInput.toLowerCase());
+    appendMessage(room, buildMessage("system", "System", `${playerInput} is no longer banned.`));
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+    res.json(serializeRoom(room, resolvedPlayer));
+    return;
+  }
+
+  const target = findPlayer(room, playerInput) || findSpectator(room, playerInput) || playerInput;
+  if (!isBannedFromRoom(room, target)) {
+    room.bannedPlayers.push(target);
+  }
+  appendMessage(room, buildMessage("system", "System", `${target} was banned by the host.`));
+
+  // removePlayerFromRoom saves and notifies the room itself
+  if (findPlayer(room, target) || findSpectator(room, target)) {
+    removePlayerFromRoom(roomId, target, { announceLeave: false });
+  } else {
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+  }
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/transfer-host", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const playerInput = String(req.body?.player || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !playerInput) {
+    res.status(400).json({ error: "Username and player are required." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can hand over the host role." });
+    return;
+  }
+
+  const target = findPlayer(room, playerInput);
+  if (!target) {
+    res.status(404).json({ error: "Player not found." });
+    return;
+  }
+  if (target === resolvedPlayer) {
+    res.status(400).json({ error: "You are already the host." });
+    return;
+  }
+
+  room.creator = target;
+  room.host = target;
+  appendMessage(room, buildMessage("system", "System", `${resolvedPlayer} made ${target} the host.`));
+
+  writePersistedRooms();
   notifyRoomUpdated(roomId);
 
   res.json(serializeRoom(room, resolvedPlayer));
 });
 
+router.post("/:roomId/lock", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (typeof req.body?.locked !== "boolean") {
+    res.status(400).json({ error: "Locked must be true or false." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  const hostName = room.creator || room.host;
+  if (hostName.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the host can lock the room." });
+    return;
+  }
+
+  if (room.locked !== req.body.locked) {
+    room.locked = req.body.locked;
+    appendMessage(
+      room,
+      buildMessage("system", "System", room.locked ? "The host locked the room." : "The host unlocked the room.")
+    );
+    writePersistedRooms();
+    notifyRoomUpdated(roomId);
+  }
+
+  res.json(serializeRoom(room, resolvedPlayer));
+});
+
+router.post("/:roomId/spectator-chat", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const text = String(req.body?.text || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username || !text) {
+    res.status(400).json({ error: "Username and message text are required." });
+    return;
+  }
+
+  if (text.length > MAX_SPECTATOR_MESSAGE_LENGTH) {
+    res.status(400).json({ error: `Messages can be at most ${MAX_SPECTATOR_MESSAGE_LENGTH} characters.` });
+    return;
+  }
+
+  const resolvedSpectator = findSpectator(room, username);
+  if (!resolvedSpectator) {
+    res.status(403).json({ error: "Only spectators can use spectator chat." });
+    return;
+  }
+
+  const rateKey = `${roomId}:${resolvedSpectator.toLowerCase()}`;
+  const now = Date.now();
+  if (now - (spectatorChatTimestamps.get(rateKey) || 0) < SPECTATOR_CHAT_INTERVAL_MS) {
+    res.status(400).json({ error: "You are sending messages too quickly." });
+    return;
+  }
+  spectatorChatTimestamps.set(rateKey, now);
+
+  appendSpectatorMessage(room, buildMessage("spectator", resolvedSpectator, text));
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedSpectator));
+});
+
+// Spectators can take a seat, and players can step out to watch, while the room is in the lobby
+router.post("/:roomId/role", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const role = req.body?.role;
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (!username) {
+    res.status(400).json({ error: "Username is required." });
+    return;
+  }
+  if (role !== "player" && role !== "spectator") {
+    res.status(400).json({ error: "Role must be player or spectator." });
+    return;
+  }
+  if (room.phase !== "lobby") {
+    res.status(400).json({ error: "You can switch roles once the host brings the room back to the lobby." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  const resolvedSpectator = findSpectator(room, username);
+  if (!resolvedPlayer && !resolvedSpectator) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+
+  if (role === "player" && resolvedSpectator) {
+    room.spectators = room.spectators.filter((spectator) => spectator !== resolvedSpectator);
+    room.players.push(resolvedSpectator);
+    room.scores[resolvedSpectator] = 0;
+    assignToSmallestTeam(room, resolvedSpectator);
+    appendMessage(room, buildMessage("system", "System", `${resolvedSpectator} joined the players.`));
+  } else if (role === "spectator" && resolvedPlayer) {
+    const hostName = room.creator || room.host;
+    if (hostName.toLowerCase() === resolvedPlayer.toLowerCase()) {
+      res.status(400).json({ error: "The host has to stay a player." });
+      return;
+    }
+    room.players = room.players.filter((player) => player !== resolvedPlayer);
+    delete room.scores[resolvedPlayer];
+    delete room.teamAssignments[resolvedPlayer];
+    room.spectators.push(resolvedPlayer);
+    appendMessage(room, buildMessage("system", "System", `${resolvedPlayer} is now spectating.`));
+  }
+
+  writePersistedRooms();
+  notifyRoomUpdated(roomId);
+
+  res.json(serializeRoom(room, resolvedPlayer || resolvedSpectator));
+});
+
 router.post("/:roomId/guess", (req, res) => {
   const roomId = String(req.params.roomId || "").trim().toUpperCase();
   const username = String(req.body?.username || "").trim();
@@ -1165,6 +3139,10 @@ router.post("/:roomId/guess", (req, res) => {
   }
 
   const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer && findSpectator(room, username)) {
+    res.status(403).json({ error: "Spectators cannot guess." });
+    return;
+  }
   if (!resolvedPlayer) {
     res.status(403).json({ error: "You are not in this room." });
     return;
@@ -1195,11 +3173,19 @@ router.post("/:roomId/guess", (req, res) => {
     room.guessedPlayers.add(resolvedPlayer);
     const guessOrder = room.guessedPlayers.size;
     const totalGuessers = getTotalGuessers(room);
-    const guesserPoints = calculateGuesserPoints(guessOrder, room.roundEndsAt);
+    const multiplier = getDifficultyMultiplier(room.wordDifficulty);
+    const guesserTeam = getTeamIndex(room, resolvedPlayer);
+    const isSteal = room.settings.teamMode && Boolean(room.drawer) && getTeamIndex(room, room.drawer) !== guesserTeam;
+    const guesserPoints = applyHintPenalty(
+      calculateGuesserPoints(guessOrder, room.roundEndsAt, room.settings.roundDurationSeconds * 1000)
+        * multiplier
+        * (isSteal ? STEAL_POINTS_RATIO : 1),
+      room.hintIndices.length
+    );
 
-    room.scores[resolvedPlayer] = (room.scores[resolvedPlayer] || 0) + guesserPoints;
-    if (room.drawer) {
-      room.scores[room.drawer] = (room.scores[room.drawer] || 0) + DRAWER_POINTS_PER_CORRECT_GUESS;
+    awardPoints(room, resolvedPlayer, guesserPoints);
+    if (room.drawer && !isSteal) {
+      awardPoints(room, room.drawer, Math.round(DRAWER_POINTS_PER_CORRECT_GUESS * multiplier));
     }
 
     appendMessage(
@@ -1217,7 +3203,9 @@ router.post("/:roomId/guess", (req, res) => {
       buildMessage(
         "system",
         "System",
-        `${resolvedPlayer} guessed correctly! +${guesserPoints} points.`
+        isSteal
+          ? `${resolvedPlayer} stole the word for team ${TEAM_NAMES[guesserTeam]}! +${guesserPoints} points.`
+          : `${resolvedPlayer} guessed correctly! +${guesserPoints} points.`
       )
     );
 
@@ -1236,7 +3224,8 @@ router.post("/:roomId/guess", (req, res) => {
 router.post("/:roomId/strokes", (req, res) => {
   const roomId = String(req.params.roomId || "").trim().toUpperCase();
   const username = String(req.body?.username || "").trim();
-  const stroke = req.body?.stroke;
+  // A single stroke, or a group of mirrored strokes committed together
+  const rawStrokes = Array.isArray(req.body?.strokes) ? req.body.strokes : [req.body?.stroke];
   const room = rooms.get(roomId);
 
   if (!room) {
@@ -1258,25 +3247,34 @@ router.post("/:roomId/strokes", (req, res) => {
     return;
   }
 
-  const mode = stroke?.mode === "fill" ? "fill" : "stroke";
-  const points = sanitizePoints(stroke?.points);
-
-  if (mode === "stroke" && points.length < 2) {
-    res.status(400).json({ error: "Stroke requires at least two points." });
+  if (rawStrokes.length === 0 || rawStrokes.length > MAX_STROKE_GROUP_SIZE) {
+    res.status(400).json({ error: `Send between 1 and ${MAX_STROKE_GROUP_SIZE} strokes at a time.` });
     return;
   }
 
-  const normalizedStroke = {
-    id: `stroke_${Date.now()}_${randomInt(1000, 9999)}`,
-    mode,
-    color: typeof stroke?.color === "string" ? stroke.color : "#f55a42",
-    size: clampNumber(Number(stroke?.size) || 4, 1, 24),
-    points
-  };
+  // Only strokes sent together are grouped, so separate commits can never be undone as one
+  const groupId = rawStrokes.length > 1 ? `group_${Date.now()}_${randomInt(1000, 9999)}` : "";
+  const usedIds = new Set(room.strokes.map((entry) => entry.id));
+  const normalizedStrokes = [];
+  for (const rawStroke of rawStrokes) {
+    // Streamed strokes keep the drawer's id so guessers can swap their live copy for the committed one
+    const clientStrokeId = sanitizeStrokeId(rawStroke?.id);
+    const strokeId = clientStrokeId && !usedIds.has(clientStrokeId)
+      ? clientStrokeId
+      : `stroke_${Date.now()}_${randomInt(1000, 9999)}`;
+    const { stroke: normalizedStroke, error: strokeError } = normalizeStroke(rawStroke, strokeId, groupId);
+    if (!normalizedStroke) {
+      res.status(400).json({ error: strokeError });
+      return;
+    }
+    usedIds.add(strokeId);
+    normalizedStrokes.push(normalizedStroke);
+  }
 
-  room.strokes.push(normalizedStroke);
-  if (room.strokes.length > 800) {
-    room.strokes = room.strokes.slice(room.strokes.length - 800);
+  room.strokes.push(...normalizedStrokes);
+  room.redoStack = [];
+  if (room.strokes.length > MAX_STROKES) {
+    room.strokes = room.strokes.slice(room.strokes.length - MAX_STROKES);
   }
 
   scheduleRoomsPersist();
@@ -1309,8 +3307,65 @@ router.post("/:roomId/undo", (req, res) => {
     return;
   }
 
+  // Strokes drawn after the latest clear are undone first, then the clear itself is rolled back
   if (room.strokes.length > 0) {
-    room.strokes.pop();
+    const lastStroke = room.strokes[room.strokes.length - 1];
+    if (lastStroke.groupId) {
+      let groupStart = room.strokes.length - 1;
+      while (groupStart > 0 && room.strokes[groupStart - 1].groupId === lastStroke.groupId) {
+        groupStart -= 1;
+      }
+      room.redoStack.push({ type: "group", strokes: room.strokes.splice(groupStart) });
+    } else {
+      room.redoStack.push({ type: "stroke", stroke: room.strokes.pop() });
+    }
+    scheduleRoomsPersist();
+    notifyRoomUpdated(roomId);
+  } else if (room.clearedStrokes.length > 0) {
+    room.strokes = room.clearedStrokes.pop();
+    room.redoStack.push({ type: "clear" });
+    scheduleRoomsPersist();
+    notifyRoomUpdated(roomId);
+  }
+
+  res.json({ ok: true });
+});
+
+router.post("/:roomId/redo", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (room.phase !== "playing") {
+    res.status(400).json({ error: "The round has not started." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  if (room.drawer?.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the drawer can redo." });
+    return;
+  }
+
+  const entry = room.redoStack.pop();
+  if (entry?.type === "stroke") {
+    room.strokes.push(entry.stroke);
+  } else if (entry?.type === "group") {
+    room.strokes.push(...entry.strokes);
+  } else if (entry?.type === "clear") {
+    room.clearedStrokes.push(room.strokes);
+    room.strokes = [];
+  }
+
+  if (entry) {
     scheduleRoomsPersist();
     notifyRoomUpdated(roomId);
   }
@@ -1342,9 +3397,55 @@ router.post("/:roomId/clear", (req, res) => {
     return;
   }
 
-  room.strokes = [];
-  scheduleRoomsPersist();
-  notifyRoomUpdated(roomId);
+  // Keep the cleared strokes so the clear can be undone like any other action
+  if (room.strokes.length > 0) {
+    room.clearedStrokes.push(room.strokes);
+    if (room.clearedStrokes.length > MAX_CLEAR_HISTORY) {
+      room.clearedStrokes = room.clearedStrokes.slice(room.clearedStrokes.length - MAX_CLEAR_HISTORY);
+    }
+    room.strokes = [];
+    room.redoStack = [];
+    scheduleRoomsPersist();
+    notifyRoomUpdated(roomId);
+  }
+  res.json({ ok: true });
+});
+
+router.post("/:roomId/background", (req, res) => {
+  const roomId = String(req.params.roomId || "").trim().toUpperCase();
+  const username = String(req.body?.username || "").trim();
+  const room = rooms.get(roomId);
+
+  if (!room) {
+    res.status(404).json({ error: "Room not found." });
+    return;
+  }
+  if (room.phase !== "playing") {
+    res.status(400).json({ error: "The round has not started." });
+    return;
+  }
+
+  const resolvedPlayer = findPlayer(room, username);
+  if (!resolvedPlayer) {
+    res.status(403).json({ error: "You are not in this room." });
+    return;
+  }
+  if (room.drawer?.toLowerCase() !== resolvedPlayer.toLowerCase()) {
+    res.status(403).json({ error: "Only the drawer can change the background." });
+    return;
+  }
+
+  const background = sanitizeHexColor(req.body?.color);
+  if (!background) {
+    res.status(400).json({ error: "Background color must be a hex value like #1A2B3C." });
+    return;
+  }
+
+  if (room.background !== background) {
+    room.background = background;
+    scheduleRoomsPersist();
+    notifyRoomUpdated(roomId);
+  }
   res.json({ ok: true });
 });
 
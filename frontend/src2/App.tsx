@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Home from "./pages/Home";
 import Lobby from "./pages/Lobby";
 import Room from "./pages/Room";
+import Telephone from "./pages/Telephone";
 import { useAppDispatch, useAppSelector } from "./hooks";
 import { joinGame } from "./store";
 
@@ -16,6 +17,7 @@ type RouteState =
   | { kind: "home" }
   | { kind: "lobby"; roomId: string }
   | { kind: "room"; roomId: string }
+  | { kind: "spectate"; roomId: string }
   | { kind: "unknown" };
 
 function normalizePath(pathname: string) {
@@ -44,6 +46,11 @@ function parseRoute(pathname: string): RouteState {
     return { kind: "room", roomId: roomMatch[1].toUpperCase() };
   }
 
+  const spectateMatch = pathname.match(/^\/spectate\/([A-Za-z0-9_-]+)$/i);
+  if (spectateMatch) {
+    return { kind: "spectate", roomId: spectateMatch[1].toUpperCase() };
+  }
+
   return { kind: "unknown" };
 }
 
@@ -145,7 +152,8 @@ export default function App() {
   useEffect(() => {
     if (status === "connected" && roomId && username) {
       writeStoredSession({ roomId, username });
-      const inRoomPhase = phase === "playing" || phase === "choosing_word" || phase === "game_over";
+      const inRoomPhase =
+        phase === "playing" || phase === "choosing_word" || phase === "game_over" || phase.startsWith("telephone_");
 
       if (inRoomPhase && route.kind !== "room") {
         navigate(`/room/${roomId}`, true);
@@ -209,7 +217,13 @@ export default function App() {
   }
 
   if (route.kind === "room") {
-    return <Room routeRoomId={route.roomId} />;
+    return phase.startsWith("telephone_")
+      ? <Telephone routeRoomId={route.roomId} />
+      : <Room routeRoomId={route.roomId} />;
+  }
+
+  if (route.kind === "spectate") {
+    return <Home initialJoinRoomId={route.roomId} spectate />;
   }
 
   return <Home initialJoinRoomId={route.kind === "home" ? joinRoomId : ""} />;
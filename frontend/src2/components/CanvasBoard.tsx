@@ -1,18 +1,21 @@
 import { useRef, useEffect } from "react";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, applyLogicalTransform, getCanvasPixelRatio } from "../drawing";
 
 export default function CanvasBoard() {
   const ref = useRef<HTMLCanvasElement | null>(null);
 
   useEffect(() => {
     const cvs = ref.current!;
+    const ratio = getCanvasPixelRatio(cvs.clientWidth);
+    cvs.width = Math.round(CANVAS_WIDTH * ratio); cvs.height = Math.round(CANVAS_HEIGHT * ratio);
     const ctx = cvs.getContext("2d")!;
-    cvs.width = 800; cvs.height = 500;
+    applyLogicalTransform(ctx);
     ctx.lineWidth = 4; ctx.lineCap = "round"; ctx.strokeStyle = "black";
   }, []);
 
   return (
     <div className="rounded-2xl border bg-white p-2 shadow">
-      <canvas ref={ref} className="block w-full" />
+      <canvas ref={ref} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="block w-full" />
     </div>
   );
 }
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+
+type ColorPickerProps = {
+  color: string;
+  onChange: (color: string) => void;
+  onClose: () => void;
+};
+
+type Hsv = { h: number; s: number; v: number };
+
+const HEX_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+function hexToHsv(hex: string): Hsv {
+  const match = hex.match(HEX_PATTERN);
+  if (!match) {
+    return { h: 0, s: 0, v: 0 };
+  }
+
+  const r = parseInt(match[1].slice(0, 2), 16) / 255;
+  const g = parseInt(match[1].slice(2, 4), 16) / 255;
+  const b = parseInt(match[1].slice(4, 6), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) {
+      h = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      h = (b - r) / delta + 2;
+    } else {
+      h = (r - g) / delta + 4;
+    }
+  }
+
+  return {
+    h: (h * 60 + 360) % 360,
+    s: max === 0 ? 0 : delta / max,
+    v: max
+  };
+}
+
+function hsvToHex({ h, s, v }: Hsv) {
+  const chroma = v * s;
+  const segment = (h / 60) % 6;
+  const secondary = chroma * (1 - Math.abs((segment % 2) - 1));
+  const offset = v - chroma;
+
+  const [r, g, b] =
+    segment < 1 ? [chroma, secondary, 0]
+      : segment < 2 ? [secondary, chroma, 0]
+        : segment < 3 ? [0, chroma, secondary]
+          : segment < 4 ? [0, secondary, chroma]
+            : segment < 5 ? [secondary, 0, chroma]
+              : [chroma, 0, secondary];
+
+  const toHex = (channel: number) => Math.round((channel + offset) * 255).toString(16).padStart(2, "0");
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+export default function ColorPicker({ color, onChange, onClose }: ColorPickerProps) {
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(color));
+  const [hexInput, setHexInput] = useState(color.toUpperCase());
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    function handlePointerDown(event: PointerEvent) {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    }
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  function commit(nextHsv: Hsv) {
+    const nextHex = hsvToHex(nextHsv);
+    setHsv(nextHsv);
+    setHexInput(nextHex);
+    onChange(nextHex);
+  }
+
+  function handleSaturationPointer(event: ReactPointerEvent<HTMLDivElement>) {
+    if (event.type === "pointermove" && event.buttons === 0) {
+      return;
+    }
+    if (event.type === "pointerdown") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    commit({
+      h: hsv.h,
+      s: clamp01((event.clientX - rect.left) / rect.width),
+      v: 1 - clamp01((event.clientY - rect.top) / rect.height)
+    });
+  }
+
+  function handleHuePointer(event: ReactPointerEvent<HTMLDivElement>) {
+    if (event.type === "pointermove" && event.buttons === 0) {
+      return;
+    }
+    if (event.type === "pointerdown") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    commit({ ...hsv, h: clamp01((event.clientX - rect.left) / rect.width) * 359.9 });
+  }
+
+  function handleHexChange(value: string) {
+    setHexInput(value.toUpperCase());
+    const match = value.trim().match(HEX_PATTERN);
+    if (!match) {
+      return;
+    }
+    const nextHex = `#${match[1]}`.toUpperCase();
+    setHsv(hexToHsv(nextHex));
+    onChange(nextHex);
+  }
+
+  const currentHex = hsvToHex(hsv);
+
+  return (
+    <div
+      ref={rootRef}
+      className="absolute bottom-full left-0 z-30 mb-2 w-[232px] rounded-lg border border-white/30 bg-[#1f2b43] p-3 shadow-[0_18px_30px_rgba(0,0,0,0.35)]"
+    >
+      <div
+        className="relative h-32 w-full cursor-crosshair touch-none rounded-md"
+        style={{
+          backgroundColor: `hsl(${Math.round(hsv.h)} 100% 50%)`,
+          backgroundImage: "linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, transparent)"
+        }}
+        onPointerDown={handleSaturationPointer}
+        onPointerMove={handleSaturationPointer}
+      >
+        <span
+          className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow"
+          style={{ left: `${hsv.s * 100}%`, top: `${(1 - hsv.v) * 100}%` }}
+        />
+      </div>
+
+      <div
+        className="relative mt-3 h-3 w-full cursor-pointer touch-none rounded-full"
+        style={{ backgroundImage: "linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)" }}
+        onPointerDown={handleHuePointer}
+        onPointerMove={handleHuePointer}
+      >
+        <span
+          className="pointer-events-none absolute top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow"
+          style={{ left: `${(hsv.h / 360) * 100}%`, backgroundColor: `hsl(${Math.round(hsv.h)} 100% 50%)` }}
+        />
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <span className="h-8 w-8 shrink-0 rounded-md border border-white/25" style={{ backgroundColor: currentHex }} />
+        <input
+          className="w-full border border-zinc-400 bg-white px-2 py-1 text-sm font-semibold uppercase text-zinc-900 outline-none"
+          value={hexInput}
+          maxLength={7}
+          spellCheck={false}
+          aria-label="Hex color"
+          onChange={(event) => handleHexChange(event.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
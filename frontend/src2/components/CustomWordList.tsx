@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+
+type CustomWordListProps = {
+  savedWords: string[];
+  disabled?: boolean;
+  onSave: (words: string[]) => void;
+};
+
+// Mirrors the checks in parseCustomWords on the server so the preview matches what gets saved
+const MAX_CUSTOM_WORDS = 500;
+const MIN_CUSTOM_WORD_LENGTH = 2;
+const MAX_CUSTOM_WORD_LENGTH = 32;
+const MAX_PREVIEW_WORDS = 60;
+
+type ParsedWordList = {
+  words: string[];
+  invalid: string[];
+  duplicateCount: number;
+};
+
+function parseWordList(text: string): ParsedWordList {
+  const words: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  let duplicateCount = 0;
+
+  text.split(/[\n,]/).forEach((entry) => {
+    const word = entry.trim().replace(/\s+/g, " ");
+    if (!word) {
+      return;
+    }
+    if (word.length < MIN_CUSTOM_WORD_LENGTH || word.length > MAX_CUSTOM_WORD_LENGTH || !/[A-Za-z0-9]/.test(word)) {
+      invalid.push(word);
+      return;
+    }
+    const key = word.toLowerCase();
+    if (seen.has(key)) {
+      duplicateCount += 1;
+      return;
+    }
+    seen.add(key);
+    words.push(word);
+  });
+
+  return { words, invalid, duplicateCount };
+}
+
+export default function CustomWordList({ savedWords, disabled = false, onSave }: CustomWordListProps) {
+  const [draft, setDraft] = useState(() => savedWords.join("\n"));
+  const [uploadError, setUploadError] = useState("");
+  const parsed = useMemo(() => parseWordList(draft), [draft]);
+  const savedKey = savedWords.join("\n");
+  const isUnchanged = parsed.words.join("\n") === savedKey;
+  const isTooLong = parsed.words.length > MAX_CUSTOM_WORDS;
+  const canSave = !disabled && !isUnchanged && !isTooLong && parsed.invalid.length === 0;
+
+  // Pick up the saved list when it changes underneath us, e.g. after a save or a reload
+  useEffect(() => {
+    setDraft(savedKey);
+  }, [savedKey]);
+
+  async function handleUpload(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const text = await file.text();
+      setDraft((current) => (current.trim() ? `${current.trim()}\n${text}` : text));
+      setUploadError("");
+    } catch {
+      setUploadError("Unable to read that file.");
+    }
+  }
+
+  return (
+    <div>
+      <textarea
+        className="h-32 w-full resize-y rounded-md border border-zinc-300 bg-white p-2 text-base font-medium text-zinc-800"
+        placeholder={"One word per line, or comma-separated\ne.g. standup, merge conflict, rubber duck"}
+        value={draft}
+        disabled={disabled}
+        onChange={(event) => setDraft(event.target.value)}
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <label className="cursor-pointer rounded bg-slate-600 px-3 py-1.5 text-sm font-bold text-white transition hover:bg-slate-700">
+          Upload .txt
+          <input type="file" accept=".txt,.csv,text/plain" className="hidden" disabled={disabled} onChange={handleUpload} />
+        </label>
+        <button
+          type="button"
+          className="rounded bg-[#10a4e4] px-3 py-1.5 text-sm font-bold text-white transition enabled:hover:bg-[#0e8fcb] disabled:cursor-not-allowed disabled:opacity-60"
+          disabled={!canSave}
+          onClick={() => onSave(parsed.words)}
+        >
+          Save Words
+        </button>
+        <span className="text-sm font-semibold text-zinc-600">
+          {parsed.words.length} {parsed.words.length === 1 ? "word" : "words"}
+          {parsed.duplicateCount > 0 ? `, ${parsed.duplicateCount} duplicate${parsed.duplicateCount === 1 ? "" : "s"} removed` : ""}
+          {isUnchanged && parsed.words.length > 0 ? " (saved)" : ""}
+        </span>
+      </div>
+      {uploadError && <p className="mt-2 text-sm font-semibold text-red-600">{uploadError}</p>}
+      {isTooLong && (
+        <p className="mt-2 text-sm font-semibold text-red-600">Lists can hold at most {MAX_CUSTOM_WORDS} words.</p>
+      )}
+      {parsed.invalid.length > 0 && (
+        <p className="mt-2 text-sm font-semibold text-red-600">
+          Words must be {MIN_CUSTOM_WORD_LENGTH} to {MAX_CUSTOM_WORD_LENGTH} characters with a letter or number:{" "}
+          {parsed.invalid.slice(0, 5).map((word) => `"${word}"`).join(", ")}
+          {parsed.invalid.length > 5 ? ` and ${parsed.invalid.length - 5} more` : ""}
+        </p>
+      )}
+      {parsed.words.length > 0 && (
+        <ul className="mt-3 flex max-h-32 flex-wrap gap-1.5 overflow-y-auto">
+          {parsed.words.slice(0, MAX_PREVIEW_WORDS).map((word) => (
+            <li key={word.toLowerCase()} className="rounded bg-zinc-300 px-2 py-0.5 text-sm font-semibold text-zinc-800">
+              {word}
+            </li>
+          ))}
+          {parsed.words.length > MAX_PREVIEW_WORDS && (
+            <li className="px-1 py-0.5 text-sm font-semibold text-zinc-600">
+              and {parsed.words.length - MAX_PREVIEW_WORDS} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
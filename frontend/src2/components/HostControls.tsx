@@ -0,0 +1,42 @@
+type HostControlsProps = {
+  playerName: string;
+  disabled?: boolean;
+  onKick: (playerName: string) => void;
+  onBan: (playerName: string) => void;
+  onMakeHost: (playerName: string) => void;
+};
+
+// The host's per-player actions, shown next to everyone but the host in the lobby and in-game player lists
+export default function HostControls({ playerName, disabled = false, onKick, onBan, onMakeHost }: HostControlsProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        type="button"
+        title={`Make ${playerName} the host`}
+        className="rounded bg-orange-500 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white transition enabled:hover:bg-orange-600 disabled:opacity-60"
+        disabled={disabled}
+        onClick={() => onMakeHost(playerName)}
+      >
+        Host
+      </button>
+      <button
+        type="button"
+        title={`Kick ${playerName}`}
+        className="rounded bg-zinc-500 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white transition enabled:hover:bg-zinc-600 disabled:opacity-60"
+        disabled={disabled}
+        onClick={() => onKick(playerName)}
+      >
+        Kick
+      </button>
+      <button
+        type="button"
+        title={`Ban ${playerName} from rejoining`}
+        className="rounded bg-red-600 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white transition enabled:hover:bg-red-700 disabled:opacity-60"
+        disabled={disabled}
+        onClick={() => onBan(playerName)}
+      >
+        Ban
+      </button>
+    </div>
+  );
+}
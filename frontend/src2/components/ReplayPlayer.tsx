@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  applyLogicalTransform,
+  buildReplayTimeline,
+  countFinishedReplayEntries,
+  createStrokeLayer,
+  drawPartialReplayEntry,
+  getCanvasPixelRatio,
+  syncStrokeLayer,
+  type DrawStroke,
+  type StrokeLayer
+} from "../drawing";
+
+type ReplayPlayerProps = {
+  strokes: Array<DrawStroke & { id: string }>;
+  background: string;
+  autoPlay?: boolean;
+};
+
+const REPLAY_SPEEDS = [1, 2, 4];
+
+function formatReplayTime(milliseconds: number) {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+export default function ReplayPlayer({ strokes, background, autoPlay = false }: ReplayPlayerProps) {
+  const timeline = useMemo(() => buildReplayTimeline(strokes), [strokes]);
+  const [time, setTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(autoPlay);
+  const [pixelRatio, setPixelRatio] = useState(1);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layerRef = useRef<StrokeLayer | null>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      setPixelRatio(getCanvasPixelRatio(canvasRef.current.clientWidth));
+    }
+  }, []);
+
+  // A new drawing starts over from the beginning
+  useEffect(() => {
+    setTime(0);
+    setIsPlaying(autoPlay);
+  }, [autoPlay, timeline]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+
+    let frameId = 0;
+    let previousTs = performance.now();
+    const step = (ts: number) => {
+      const elapsed = (ts - previousTs) * speed;
+      previousTs = ts;
+      setTime((current) => Math.min(timeline.duration, current + elapsed));
+      frameId = window.requestAnimationFrame(step);
+    };
+    frameId = window.requestAnimationFrame(step);
+
+    return () => {
+      window.cancelAnimationFrame(frameId);
+    };
+  }, [isPlaying, speed, timeline]);
+
+  useEffect(() => {
+    if (isPlaying && time >= timeline.duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, time, timeline]);
+
+  // Finished strokes go through a cached layer, so playing forward only draws what is new
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) {
+      return;
+    }
+
+    if (!layerRef.current || layerRef.current.pixelRatio !== pixelRatio) {
+      layerRef.current = createStrokeLayer(pixelRatio);
+    }
+    const finishedCount = countFinishedReplayEntries(timeline, time);
+    syncStrokeLayer(layerRef.current, timeline.entries.slice(0, finishedCount).map((entry) => entry.stroke));
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = background;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    context.drawImage(layerRef.current.canvas, 0, 0);
+
+    const activeEntry = timeline.entries[finishedCount];
+    if (activeEntry) {
+      applyLogicalTransform(context);
+      drawPartialReplayEntry(context, activeEntry, time, background);
+    }
+  }, [background, pixelRatio, time, timeline]);
+
+  function handleTogglePlay() {
+    if (!isPlaying && time >= timeline.duration) {
+      setTime(0);
+    }
+    setIsPlaying((current) => !current);
+  }
+
+  return (
+    <div className="w-full">
+      <canvas
+        ref={canvasRef}
+        width={Math.round(CANVAS_WIDTH * pixelRatio)}
+        height={Math.round(CANVAS_HEIGHT * pixelRatio)}
+        className="block w-full rounded-md border-2 border-white/40"
+      />
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          type="button"
+          title={isPlaying ? "Pause replay" : "Play replay"}
+          aria-label={isPlaying ? "Pause replay" : "Play replay"}
+          className="flex h-8 w-10 shrink-0 cursor-pointer items-center justify-center rounded bg-[#10a4e4] text-sm font-bold text-white transition hover:bg-[#0e8fcb]"
+          onClick={handleTogglePlay}
+        >
+          {isPlaying ? "❚❚" : "▶"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(1, Math.round(timeline.duration))}
+          step={10}
+          value={Math.round(time)}
+          aria-label="Replay position"
+          className="min-w-0 flex-1 cursor-pointer accent-[#10a4e4]"
+          onChange={(event) => setTime(Number(event.target.value))}
+        />
+        <span className="shrink-0 text-xs font-bold tabular-nums">
+          {formatReplayTime(time)} / {formatReplayTime(timeline.duration)}
+        </span>
+        <div className="flex shrink-0 gap-1">
+          {REPLAY_SPEEDS.map((speedOption) => (
+            <button
+              key={speedOption}
+              type="button"
+              aria-pressed={speed === speedOption}
+              className={`h-8 rounded px-2 text-xs font-bold transition ${
+                speed === speedOption ? "bg-slate-600 text-white ring-2 ring-red-500" : "bg-slate-600/70 text-white hover:bg-slate-600"
+              }`}
+              onClick={() => setSpeed(speedOption)}
+            >
+              {speedOption}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
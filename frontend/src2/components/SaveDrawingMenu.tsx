@@ -0,0 +1,31 @@
+import type { DrawingExportFormat } from "../drawing";
+
+type SaveDrawingMenuProps = {
+  onSave: (format: DrawingExportFormat) => void;
+  disabled?: boolean;
+};
+
+const FORMATS: Array<{ format: DrawingExportFormat; label: string }> = [
+  { format: "png", label: "PNG" },
+  { format: "svg", label: "SVG" }
+];
+
+export default function SaveDrawingMenu({ onSave, disabled = false }: SaveDrawingMenuProps) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className="text-sm font-bold uppercase tracking-wide">Save drawing</span>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          title={`Save drawing as ${label}`}
+          className="rounded bg-[#10a4e4] px-2.5 py-1 text-sm font-bold text-white transition enabled:hover:bg-[#0e8fcb] disabled:cursor-wait disabled:opacity-60"
+          disabled={disabled}
+          onClick={() => onSave(format)}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  MIN_POINT_DISTANCE,
+  applyLogicalTransform,
+  createStrokeLayer,
+  drawStroke,
+  getCanvasPixelRatio,
+  getSimplifyTolerance,
+  simplifyPoints,
+  syncStrokeLayer,
+  toVisibleStroke,
+  type StrokeLayer
+} from "../drawing";
+import type { Stroke, StrokePoint } from "../store";
+
+type TelephoneCanvasProps = {
+  strokes: Stroke[];
+  background: string;
+  disabled?: boolean;
+  onChange: (strokes: Stroke[]) => void;
+};
+
+const TELEPHONE_COLORS = [
+  "#000000", "#FFFFFF", "#9CA3AF", "#FF1500", "#EE7A16", "#FFF000", "#00FF00", "#008F00",
+  "#17E5E5", "#2999F0", "#1717E0", "#9707A2", "#E90CF0", "#F0B6CF", "#AF5B16"
+];
+const TELEPHONE_SIZES = [3, 6, 10, 18];
+
+function createStrokeId() {
+  return `stroke_${Date.now()}_${Math.floor(Math.random() * 1_000_000)}`;
+}
+
+// A private sketchpad for telephone drawings. Nothing is streamed; the finished strokes are
+// handed back through onChange and submitted in one go.
+export default function TelephoneCanvas({ strokes, background, disabled = false, onChange }: TelephoneCanvasProps) {
+  const [color, setColor] = useState(TELEPHONE_COLORS[0]);
+  const [size, setSize] = useState(TELEPHONE_SIZES[1]);
+  const [isErasing, setIsErasing] = useState(false);
+  const [livePoints, setLivePoints] = useState<StrokePoint[]>([]);
+  const [pixelRatio, setPixelRatio] = useState(1);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layerRef = useRef<StrokeLayer | null>(null);
+  const drawingPointsRef = useRef<StrokePoint[]>([]);
+  const drawingStartedAtRef = useRef(0);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      setPixelRatio(getCanvasPixelRatio(canvasRef.current.clientWidth));
+    }
+  }, []);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) {
+      return;
+    }
+
+    if (!layerRef.current || layerRef.current.pixelRatio !== pixelRatio) {
+      layerRef.current = createStrokeLayer(pixelRatio);
+    }
+    syncStrokeLayer(layerRef.current, strokes);
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = background;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    context.drawImage(layerRef.current.canvas, 0, 0);
+
+    if (livePoints.length > 1) {
+      applyLogicalTransform(context);
+      drawStroke(context, toVisibleStroke({ mode: isErasing ? "erase" : "stroke", color, size, points: livePoints }, background));
+    }
+  }, [background, color, isErasing, livePoints, pixelRatio, size, strokes]);
+
+  function getCanvasPoint(event: ReactPointerEvent<HTMLCanvasElement>): StrokePoint {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(CANVAS_WIDTH, ((event.clientX - rect.left) * CANVAS_WIDTH) / rect.width)),
+      y: Math.max(0, Math.min(CANVAS_HEIGHT, ((event.clientY - rect.top) * CANVAS_HEIGHT) / rect.height)),
+      t: Math.max(0, Date.now() - drawingStartedAtRef.current)
+    };
+  }
+
+  function handlePointerDown(event: ReactPointerEvent<HTMLCanvasElement>) {
+    if (disabled || event.button !== 0) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingStartedAtRef.current = Date.now();
+    drawingPointsRef.current = [getCanvasPoint(event)];
+    setLivePoints(drawingPointsRef.current);
+  }
+
+  function handlePointerMove(event: ReactPointerEvent<HTMLCanvasElement>) {
+    const points = drawingPointsRef.current;
+    if (points.length === 0) {
+      return;
+    }
+    const point = getCanvasPoint(event);
+    const lastPoint = points[points.length - 1];
+    if (Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y) < MIN_POINT_DISTANCE) {
+      return;
+    }
+    drawingPointsRef.current = [...points, point];
+    setLivePoints(drawingPointsRef.current);
+  }
+
+  function handlePointerEnd() {
+    const points = drawingPointsRef.current;
+    drawingPointsRef.current = [];
+    setLivePoints([]);
+    if (points.length === 0) {
+      return;
+    }
+
+    // A tap still leaves a dot
+    const strokePoints = points.length === 1 ? [points[0], { ...points[0], x: points[0].x + 0.5 }] : points;
+    onChange([
+      ...strokes,
+      {
+        id: createStrokeId(),
+        mode: isErasing ? "erase" : "stroke",
+        color,
+        size,
+        opacity: 1,
+        startedAt: drawingStartedAtRef.current,
+        points: simplifyPoints(strokePoints, getSimplifyTolerance(size))
+      }
+    ]);
+  }
+
+  return (
+    <div className="w-full">
+      <canvas
+        ref={canvasRef}
+        width={Math.round(CANVAS_WIDTH * pixelRatio)}
+        height={Math.round(CANVAS_HEIGHT * pixelRatio)}
+        className={`block w-full touch-none rounded-md border-2 border-white/40 ${disabled ? "cursor-not-allowed" : "cursor-crosshair"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap gap-1">
+          {TELEPHONE_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              title={option}
+              aria-label={`Color ${option}`}
+              aria-pressed={!isErasing && color === option}
+              className={`h-7 w-7 rounded border border-zinc-400 transition ${!isErasing && color === option ? "ring-2 ring-red-500" : ""}`}
+              style={{ backgroundColor: option }}
+              disabled={disabled}
+              onClick={() => {
+                setColor(option);
+                setIsErasing(false);
+              }}
+            />
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {TELEPHONE_SIZES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-label={`Brush size ${option}`}
+              aria-pressed={size === option}
+              className={`flex h-8 w-8 items-center justify-center rounded bg-slate-600 transition hover:bg-slate-700 ${
+                size === option ? "ring-2 ring-red-500" : ""
+              }`}
+              disabled={disabled}
+              onClick={() => setSize(option)}
+            >
+              <span className="rounded-full bg-white" style={{ width: option, height: option }} />
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          aria-pressed={isErasing}
+          className={`h-8 rounded bg-slate-600 px-3 text-sm font-bold text-white transition hover:bg-slate-700 ${
+            isErasing ? "ring-2 ring-red-500" : ""
+          }`}
+          disabled={disabled}
+          onClick={() => setIsErasing((current) => !current)}
+        >
+          Eraser
+        </button>
+        <button
+          type="button"
+          className="h-8 rounded bg-slate-600 px-3 text-sm font-bold text-white transition enabled:hover:bg-slate-700 disabled:opacity-60"
+          disabled={disabled || strokes.length === 0}
+          onClick={() => onChange(strokes.slice(0, -1))}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          className="h-8 rounded bg-slate-600 px-3 text-sm font-bold text-white transition enabled:hover:bg-slate-700 disabled:opacity-60"
+          disabled={disabled || strokes.length === 0}
+          onClick={() => onChange([])}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
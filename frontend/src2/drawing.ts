@@ -0,0 +1,827 @@
+import type { StrokeMode, StrokePoint } from "./store";
+
+// Strokes are stored in this logical space on every client. Canvases render it at whatever
+// backing-store resolution their display needs, so coordinates never depend on screen size.
+export const CANVAS_WIDTH = 760;
+export const CANVAS_HEIGHT = 620;
+export const MAX_PIXEL_RATIO = 3;
+export const MAX_VIEW_SCALE = 4;
+export const FILL_TOLERANCE = 32;
+export const MIN_POINT_DISTANCE = 1;
+export const MIN_WIDTH_FACTOR = 0.1;
+export const MAX_WIDTH_FACTOR = 2;
+export const MIN_OPACITY = 0.05;
+const SIMPLIFY_WINDOW_MAX_POINTS = 48;
+
+export type DrawStroke = {
+  mode: StrokeMode;
+  color: string;
+  size: number;
+  points: StrokePoint[];
+  tolerance?: number;
+  filled?: boolean;
+  opacity?: number;
+  startedAt?: number;
+};
+
+type Rgba = [number, number, number, number];
+
+export type SymmetryMode = "off" | "horizontal" | "vertical" | "quad";
+
+// Returns the stroke followed by its mirrored copies: "horizontal" mirrors left to right,
+// "vertical" top to bottom, and "quad" both, giving one copy per quarter of the canvas
+export function mirrorStrokePoints(points: StrokePoint[], mode: SymmetryMode): StrokePoint[][] {
+  const flipX = (point: StrokePoint) => ({ ...point, x: CANVAS_WIDTH - point.x });
+  const flipY = (point: StrokePoint) => ({ ...point, y: CANVAS_HEIGHT - point.y });
+
+  if (mode === "horizontal") {
+    return [points, points.map(flipX)];
+  }
+  if (mode === "vertical") {
+    return [points, points.map(flipY)];
+  }
+  if (mode === "quad") {
+    return [points, points.map(flipX), points.map(flipY), points.map((point) => flipX(flipY(point)))];
+  }
+  return [points];
+}
+
+// Dashed guides along the mirror axes, drawn in logical units
+export function drawSymmetryGuides(ctx: CanvasRenderingContext2D, mode: SymmetryMode) {
+  if (mode === "off") {
+    return;
+  }
+
+  ctx.save();
+  ctx.strokeStyle = "rgba(16, 164, 228, 0.55)";
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  if (mode === "horizontal" || mode === "quad") {
+    ctx.moveTo(CANVAS_WIDTH / 2, 0);
+    ctx.lineTo(CANVAS_WIDTH / 2, CANVAS_HEIGHT);
+  }
+  if (mode === "vertical" || mode === "quad") {
+    ctx.moveTo(0, CANVAS_HEIGHT / 2);
+    ctx.lineTo(CANVAS_WIDTH, CANVAS_HEIGHT / 2);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// A zoomed view of the canvas: `x` and `y` are the logical coordinates shown at the top-left corner
+export type CanvasView = {
+  scale: number;
+  x: number;
+  y: number;
+};
+
+export const DEFAULT_VIEW: CanvasView = { scale: 1, x: 0, y: 0 };
+
+// Keeps the zoom within limits and the visible region inside the canvas
+export function clampView(view: CanvasView): CanvasView {
+  const scale = Math.min(MAX_VIEW_SCALE, Math.max(1, view.scale));
+  return {
+    scale,
+    x: Math.min(CANVAS_WIDTH - CANVAS_WIDTH / scale, Math.max(0, view.x)),
+    y: Math.min(CANVAS_HEIGHT - CANVAS_HEIGHT / scale, Math.max(0, view.y))
+  };
+}
+
+// Backing-store pixels per logical unit for a canvas shown `displayWidth` CSS pixels wide.
+// Rounded to quarter steps so small layout changes don't force a full re-render.
+export function getCanvasPixelRatio(displayWidth: number) {
+  const deviceRatio = window.devicePixelRatio || 1;
+  const displayScale = displayWidth > 0 ? displayWidth / CANVAS_WIDTH : 1;
+  const ratio = Math.round(deviceRatio * displayScale * 4) / 4;
+  return Math.min(MAX_PIXEL_RATIO, Math.max(1, ratio));
+}
+
+function getPixelScale(ctx: CanvasRenderingContext2D) {
+  return ctx.canvas.width / CANVAS_WIDTH;
+}
+
+// Maps logical coordinates onto the canvas backing store
+export function applyLogicalTransform(ctx: CanvasRenderingContext2D) {
+  const scale = getPixelScale(ctx);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+}
+
+// Simplification error allowed for a brush size. Kept well under the stroke width so
+// simplified strokes still look the way they were drawn.
+export function getSimplifyTolerance(size: number) {
+  return Math.min(2, Math.max(0.5, size * 0.12));
+}
+
+function distanceToSegment(point: StrokePoint, start: StrokePoint, end: StrokePoint) {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return Math.hypot(point.x - start.x, point.y - start.y);
+  }
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+// Ramer–Douglas–Peucker, iterative so long strokes cannot overflow the call stack
+export function simplifyPoints(points: StrokePoint[], tolerance: number) {
+  if (points.length <= 2) {
+    return points;
+  }
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthestIndex = -1;
+    let farthestDistance = tolerance;
+    for (let index = first + 1; index < last; index += 1) {
+      const distance = distanceToSegment(points[index], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthestDistance = distance;
+        farthestIndex = index;
+      }
+    }
+    if (farthestIndex !== -1) {
+      keep[farthestIndex] = 1;
+      ranges.push([first, farthestIndex], [farthestIndex, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index] === 1);
+}
+
+// A stroke being simplified while it is drawn. `settled` holds the points that can no longer
+// change; `anchorIndex` is the raw point the next window of simplification starts from.
+export type StrokeSimplifier = {
+  settled: StrokePoint[];
+  anchorIndex: number;
+};
+
+export function createStrokeSimplifier(firstPoint: StrokePoint): StrokeSimplifier {
+  return { settled: [firstPoint], anchorIndex: 0 };
+}
+
+// Runs the RDP pass over the raw points since the last settled one. Every kept point before the
+// tip is settled, so the points streamed to guessers and the committed stroke are the same list.
+// Long straight runs keep nothing back, so their window is closed off after a while. Returns the
+// preview: the settled points followed by the simplified tail.
+export function settleStrokePoints(simplifier: StrokeSimplifier, points: StrokePoint[], tolerance: number, final = false) {
+  const windowPoints = points.slice(simplifier.anchorIndex);
+  const kept = simplifyPoints(windowPoints, tolerance);
+
+  if (final || windowPoints.length > SIMPLIFY_WINDOW_MAX_POINTS) {
+    simplifier.settled.push(...kept.slice(1));
+    simplifier.anchorIndex = points.length - 1;
+    return [...simplifier.settled];
+  }
+
+  if (kept.length > 2) {
+    const lastSettled = kept[kept.length - 2];
+    simplifier.settled.push(...kept.slice(1, -1));
+    simplifier.anchorIndex += windowPoints.indexOf(lastSettled);
+  }
+  return [...simplifier.settled, ...simplifyPoints(points.slice(simplifier.anchorIndex), tolerance).slice(1)];
+}
+
+// Maps pen pressure (0–1) to a width factor; 0.5, the pressure most devices report by default, maps to 1
+export function pressureToWidthFactor(pressure: number) {
+  const factor = 0.25 + pressure * 1.5;
+  return Math.round(Math.min(MAX_WIDTH_FACTOR, Math.max(MIN_WIDTH_FACTOR, factor)) * 100) / 100;
+}
+
+function hasWidthFactors(points: StrokePoint[]) {
+  return points.some((point) => typeof point.w === "number");
+}
+
+// Same curve as traceSmoothPath, stroked piece by piece so each piece takes its sample's width
+function strokeVariableWidthPath(ctx: CanvasRenderingContext2D, points: StrokePoint[], size: number) {
+  let from = points[0];
+  for (let index = 1; index < points.length; index += 1) {
+    const point = points[index];
+    const isLast = index === points.length - 1;
+    const to = isLast
+      ? point
+      : { x: (point.x + points[index + 1].x) / 2, y: (point.y + points[index + 1].y) / 2 };
+
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    if (isLast) {
+      ctx.lineTo(to.x, to.y);
+    } else {
+      ctx.quadraticCurveTo(point.x, point.y, to.x, to.y);
+    }
+    ctx.lineWidth = size * (point.w ?? 1);
+    ctx.stroke();
+    from = to;
+  }
+}
+
+// Curves through the midpoints between samples, using each sample as the control point
+function traceSmoothPath(ctx: CanvasRenderingContext2D, points: StrokePoint[]) {
+  ctx.moveTo(points[0].x, points[0].y);
+  if (points.length === 2) {
+    ctx.lineTo(points[1].x, points[1].y);
+    return;
+  }
+
+  for (let index = 1; index < points.length - 1; index += 1) {
+    const midX = (points[index].x + points[index + 1].x) / 2;
+    const midY = (points[index].y + points[index + 1].y) / 2;
+    ctx.quadraticCurveTo(points[index].x, points[index].y, midX, midY);
+  }
+  const lastPoint = points[points.length - 1];
+  ctx.lineTo(lastPoint.x, lastPoint.y);
+}
+
+function parseHexColor(value: string): Rgba | null {
+  const hex = value.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return [
+      parseInt(hex[0] + hex[0], 16),
+      parseInt(hex[1] + hex[1], 16),
+      parseInt(hex[2] + hex[2], 16),
+      255
+    ];
+  }
+  if (/^[0-9a-f]{6}$/i.test(hex)) {
+    return [
+      parseInt(hex.slice(0, 2), 16),
+      parseInt(hex.slice(2, 4), 16),
+      parseInt(hex.slice(4, 6), 16),
+      255
+    ];
+  }
+  return null;
+}
+
+// Reads the color under a logical canvas point as an uppercase #RRGGBB value. Transparent parts of
+// a drawing layer are blended over `background`, the way they appear on screen.
+export function sampleCanvasColor(ctx: CanvasRenderingContext2D, point: StrokePoint, background = "#FFFFFF") {
+  const scale = getPixelScale(ctx);
+  const x = Math.min(ctx.canvas.width - 1, Math.max(0, Math.floor(point.x * scale)));
+  const y = Math.min(ctx.canvas.height - 1, Math.max(0, Math.floor(point.y * scale)));
+  const [r, g, b, a] = ctx.getImageData(x, y, 1, 1).data;
+  const backgroundColor = parseHexColor(background) || [255, 255, 255, 255];
+  const alpha = a / 255;
+  return `#${[r, g, b]
+    .map((channel, index) => Math.round(channel * alpha + backgroundColor[index] * (1 - alpha)))
+    .map((channel) => channel.toString(16).padStart(2, "0"))
+    .join("")}`.toUpperCase();
+}
+
+// Scanline flood fill over 1x logical pixels. Every client replays the same strokes in the
+// same order onto a 1x reference, so the filled region comes out identical everywhere no
+// matter what resolution each client displays at. Returns one byte per logical pixel,
+// set where the fill lands.
+function computeFillMask(source: CanvasRenderingContext2D, seed: StrokePoint, tolerance: number) {
+  const width = CANVAS_WIDTH;
+  const height = CANVAS_HEIGHT;
+  const seedX = Math.min(width - 1, Math.max(0, Math.floor(seed.x)));
+  const seedY = Math.min(height - 1, Math.max(0, Math.floor(seed.y)));
+  const pixels = source.getImageData(0, 0, width, height).data;
+  const mask = new Uint8Array(width * height);
+
+  const seedOffset = (seedY * width + seedX) * 4;
+  const target: Rgba = [pixels[seedOffset], pixels[seedOffset + 1], pixels[seedOffset + 2], pixels[seedOffset + 3]];
+
+  const matches = (pixelIndex: number) => {
+    if (mask[pixelIndex]) {
+      return false;
+    }
+    const offset = pixelIndex * 4;
+    return (
+      Math.abs(pixels[offset] - target[0]) <= tolerance &&
+      Math.abs(pixels[offset + 1] - target[1]) <= tolerance &&
+      Math.abs(pixels[offset + 2] - target[2]) <= tolerance &&
+      Math.abs(pixels[offset + 3] - target[3]) <= tolerance
+    );
+  };
+
+  const stack: Array<[number, number]> = [[seedX, seedY]];
+  while (stack.length > 0) {
+    const [startX, y] = stack.pop()!;
+    const rowStart = y * width;
+    if (!matches(rowStart + startX)) {
+      continue;
+    }
+
+    let left = startX;
+    while (left > 0 && matches(rowStart + left - 1)) {
+      left -= 1;
+    }
+    let right = startX;
+    while (right < width - 1 && matches(rowStart + right + 1)) {
+      right += 1;
+    }
+
+    mask.fill(1, rowStart + left, rowStart + right + 1);
+
+    // Queue one seed per contiguous run in the rows above and below
+    for (const nextY of [y - 1, y + 1]) {
+      if (nextY < 0 || nextY >= height) {
+        continue;
+      }
+      const nextRowStart = nextY * width;
+      let inRun = false;
+      for (let x = left; x <= right; x += 1) {
+        const isMatch = matches(nextRowStart + x);
+        if (isMatch && !inRun) {
+          stack.push([x, nextY]);
+        }
+        inRun = isMatch;
+      }
+    }
+  }
+
+  return mask;
+}
+
+let fillContext: CanvasRenderingContext2D | null = null;
+
+// A 1x scratch canvas for building fill sources and fill images
+function getFillContext() {
+  if (!fillContext) {
+    const canvas = document.createElement("canvas");
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    fillContext = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  return fillContext;
+}
+
+// Paints the masked region in the fill color, scaled from logical pixels up to the target's resolution
+function compositeFillMask(ctx: CanvasRenderingContext2D, mask: Uint8Array, fillColor: Rgba, opacity: number) {
+  const scratch = getFillContext();
+  if (!scratch) {
+    return;
+  }
+
+  const image = new ImageData(CANVAS_WIDTH, CANVAS_HEIGHT);
+  for (let pixelIndex = 0; pixelIndex < mask.length; pixelIndex += 1) {
+    if (mask[pixelIndex]) {
+      image.data.set(fillColor, pixelIndex * 4);
+    }
+  }
+  scratch.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = opacity;
+  ctx.globalCompositeOperation = "source-over";
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(scratch.canvas, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+}
+
+// Fills the region around `seed` (in logical units). The region is worked out on `reference`,
+// a 1x copy of the same strokes, which is filled too so it stays in step. Without one, the
+// canvas itself is read back at 1x.
+export function floodFill(
+  ctx: CanvasRenderingContext2D,
+  seed: StrokePoint,
+  color: string,
+  tolerance: number,
+  opacity = 1,
+  reference: CanvasRenderingContext2D | null = null
+) {
+  const fillColor = parseHexColor(color);
+  if (!fillColor) {
+    return;
+  }
+
+  let source = reference ?? (getPixelScale(ctx) === 1 ? ctx : null);
+  if (!source) {
+    source = getFillContext();
+    if (!source) {
+      return;
+    }
+    source.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    source.drawImage(ctx.canvas, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  }
+
+  const mask = computeFillMask(source, seed, tolerance);
+  compositeFillMask(ctx, mask, fillColor, opacity);
+  if (reference) {
+    compositeFillMask(reference, mask, fillColor, opacity);
+  }
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, stroke: DrawStroke) {
+  const start = stroke.points[0];
+  const end = stroke.points[stroke.points.length - 1];
+
+  ctx.beginPath();
+  if (stroke.mode === "line") {
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+    return;
+  }
+
+  const left = Math.min(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+
+  if (stroke.mode === "rect") {
+    ctx.rect(left, top, width, height);
+  } else {
+    ctx.ellipse(left + width / 2, top + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  }
+
+  if (stroke.filled) {
+    ctx.fill();
+  } else {
+    ctx.stroke();
+  }
+}
+
+function paintStroke(ctx: CanvasRenderingContext2D, stroke: DrawStroke) {
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = stroke.size;
+
+  if (stroke.mode === "line" || stroke.mode === "rect" || stroke.mode === "ellipse") {
+    drawShape(ctx, stroke);
+    return;
+  }
+
+  if (hasWidthFactors(stroke.points)) {
+    strokeVariableWidthPath(ctx, stroke.points, stroke.size);
+    return;
+  }
+
+  ctx.beginPath();
+  traceSmoothPath(ctx, stroke.points);
+  ctx.stroke();
+}
+
+let scratchContext: CanvasRenderingContext2D | null = null;
+
+function getScratchContext(width: number, height: number) {
+  if (!scratchContext) {
+    scratchContext = document.createElement("canvas").getContext("2d");
+  }
+  if (scratchContext && (scratchContext.canvas.width !== width || scratchContext.canvas.height !== height)) {
+    scratchContext.canvas.width = width;
+    scratchContext.canvas.height = height;
+  }
+  return scratchContext;
+}
+
+// How a stroke looks on screen over `background`. Erasing cannot be shown on a separate
+// transparent canvas, so previews paint the revealed background instead.
+export function toVisibleStroke<T extends DrawStroke>(stroke: T, background: string): T {
+  return stroke.mode === "erase" ? { ...stroke, mode: "stroke", color: background } : stroke;
+}
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: DrawStroke, fillReference: CanvasRenderingContext2D | null = null) {
+  const opacity = Math.min(1, Math.max(MIN_OPACITY, stroke.opacity ?? 1));
+  const compositeOperation: GlobalCompositeOperation = stroke.mode === "erase" ? "destination-out" : "source-over";
+
+  if (stroke.mode === "fill") {
+    const seed = stroke.points[0];
+    if (seed) {
+      floodFill(ctx, seed, stroke.color, stroke.tolerance ?? FILL_TOLERANCE, opacity, fillReference);
+    }
+    return;
+  }
+
+  if (stroke.points.length < 2) {
+    return;
+  }
+
+  const scratch = opacity < 1 ? getScratchContext(ctx.canvas.width, ctx.canvas.height) : null;
+  if (!scratch) {
+    ctx.save();
+    ctx.globalCompositeOperation = compositeOperation;
+    paintStroke(ctx, stroke);
+    ctx.restore();
+    return;
+  }
+
+  // Translucent strokes are painted opaque on a scratch canvas and blended in once,
+  // so places where the stroke crosses itself don't come out darker
+  scratch.setTransform(1, 0, 0, 1, 0, 0);
+  scratch.clearRect(0, 0, scratch.canvas.width, scratch.canvas.height);
+  scratch.setTransform(ctx.getTransform());
+  paintStroke(scratch, stroke);
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = opacity;
+  ctx.globalCompositeOperation = compositeOperation;
+  ctx.drawImage(scratch.canvas, 0, 0);
+  ctx.restore();
+}
+
+// The committed strokes on a transparent bitmap. The background is painted underneath when
+// the layer is shown, so the eraser can cut through to it. Above 1x the layer keeps a 1x copy
+// of the same strokes for flood fills to read from.
+export type StrokeLayer = {
+  canvas: HTMLCanvasElement;
+  fillReference: HTMLCanvasElement | null;
+  pixelRatio: number;
+  strokeIds: string[];
+};
+
+export function createStrokeLayer(pixelRatio: number): StrokeLayer {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(CANVAS_WIDTH * pixelRatio);
+  canvas.height = Math.round(CANVAS_HEIGHT * pixelRatio);
+  const context = canvas.getContext("2d");
+  if (context) {
+    applyLogicalTransform(context);
+  }
+
+  let fillReference: HTMLCanvasElement | null = null;
+  if (canvas.width !== CANVAS_WIDTH) {
+    fillReference = document.createElement("canvas");
+    fillReference.width = CANVAS_WIDTH;
+    fillReference.height = CANVAS_HEIGHT;
+  }
+  return { canvas, fillReference, pixelRatio, strokeIds: [] };
+}
+
+// Draws one committed stroke onto the layer and its 1x fill reference
+function drawLayerStroke(layer: StrokeLayer, stroke: DrawStroke) {
+  const context = layer.canvas.getContext("2d");
+  if (!context) {
+    return;
+  }
+  const referenceContext = layer.fillReference?.getContext("2d", { willReadFrequently: true }) ?? null;
+  drawStroke(context, stroke, referenceContext);
+  if (referenceContext && stroke.mode !== "fill") {
+    drawStroke(referenceContext, stroke);
+  }
+}
+
+// Brings the cached bitmap in line with the committed stroke list. Strokes appended since the
+// last sync are drawn on top of the existing bitmap; anything else (undo, clear, a new round)
+// rebuilds it from scratch. Returns true when the bitmap changed.
+export function syncStrokeLayer(layer: StrokeLayer, strokes: Array<DrawStroke & { id: string }>) {
+  const context = layer.canvas.getContext("2d");
+  if (!context) {
+    return false;
+  }
+
+  const previousIds = layer.strokeIds;
+  const isAppendOnly =
+    previousIds.length <= strokes.length &&
+    previousIds.every((strokeId, index) => strokes[index].id === strokeId);
+
+  if (isAppendOnly && previousIds.length === strokes.length) {
+    return false;
+  }
+
+  const startIndex = isAppendOnly ? previousIds.length : 0;
+  if (!isAppendOnly) {
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    layer.fillReference?.getContext("2d", { willReadFrequently: true })?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  }
+
+  for (let index = startIndex; index < strokes.length; index += 1) {
+    drawLayerStroke(layer, strokes[index]);
+  }
+
+  layer.strokeIds = strokes.map((stroke) => stroke.id);
+  return true;
+}
+
+// Renders a finished drawing at a fixed resolution, independent of any on-screen canvas
+export function renderDrawingToCanvas(strokes: Array<DrawStroke & { id: string }>, background: string, pixelRatio = 2) {
+  const layer = createStrokeLayer(pixelRatio);
+  syncStrokeLayer(layer, strokes);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = layer.canvas.width;
+  canvas.height = layer.canvas.height;
+  const context = canvas.getContext("2d");
+  if (context) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(layer.canvas, 0, 0);
+  }
+  return canvas;
+}
+
+function formatSvgNumber(value: number) {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Same curve as traceSmoothPath, as SVG path data
+function buildSmoothPathData(points: StrokePoint[]) {
+  const parts = [`M${formatSvgNumber(points[0].x)} ${formatSvgNumber(points[0].y)}`];
+  for (let index = 1; index < points.length - 1; index += 1) {
+    const midX = (points[index].x + points[index + 1].x) / 2;
+    const midY = (points[index].y + points[index + 1].y) / 2;
+    parts.push(
+      `Q${formatSvgNumber(points[index].x)} ${formatSvgNumber(points[index].y)} ${formatSvgNumber(midX)} ${formatSvgNumber(midY)}`
+    );
+  }
+  const lastPoint = points[points.length - 1];
+  parts.push(`L${formatSvgNumber(lastPoint.x)} ${formatSvgNumber(lastPoint.y)}`);
+  return parts.join(" ");
+}
+
+function buildVariableWidthSvg(stroke: DrawStroke) {
+  const { points } = stroke;
+  const segments: string[] = [];
+  let from = points[0];
+  for (let index = 1; index < points.length; index += 1) {
+    const point = points[index];
+    const isLast = index === points.length - 1;
+    const to = isLast
+      ? point
+      : { x: (point.x + points[index + 1].x) / 2, y: (point.y + points[index + 1].y) / 2 };
+    const curve = isLast
+      ? `L${formatSvgNumber(to.x)} ${formatSvgNumber(to.y)}`
+      : `Q${formatSvgNumber(point.x)} ${formatSvgNumber(point.y)} ${formatSvgNumber(to.x)} ${formatSvgNumber(to.y)}`;
+    segments.push(
+      `<path d="M${formatSvgNumber(from.x)} ${formatSvgNumber(from.y)} ${curve}" stroke-width="${formatSvgNumber(stroke.size * (point.w ?? 1))}"/>`
+    );
+    from = to;
+  }
+  return `<g fill="none" stroke="${stroke.color}" stroke-linecap="round" stroke-linejoin="round">${segments.join("")}</g>`;
+}
+
+function buildShapeSvg(stroke: DrawStroke) {
+  const start = stroke.points[0];
+  const end = stroke.points[stroke.points.length - 1];
+  const paint = stroke.filled && stroke.mode !== "line"
+    ? `fill="${stroke.color}" stroke="none"`
+    : `fill="none" stroke="${stroke.color}" stroke-width="${formatSvgNumber(stroke.size)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  if (stroke.mode === "line") {
+    return `<line x1="${formatSvgNumber(start.x)}" y1="${formatSvgNumber(start.y)}" x2="${formatSvgNumber(end.x)}" y2="${formatSvgNumber(end.y)}" ${paint}/>`;
+  }
+
+  const left = Math.min(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (stroke.mode === "rect") {
+    return `<rect x="${formatSvgNumber(left)}" y="${formatSvgNumber(top)}" width="${formatSvgNumber(width)}" height="${formatSvgNumber(height)}" ${paint}/>`;
+  }
+  return `<ellipse cx="${formatSvgNumber(left + width / 2)}" cy="${formatSvgNumber(top + height / 2)}" rx="${formatSvgNumber(width / 2)}" ry="${formatSvgNumber(height / 2)}" ${paint}/>`;
+}
+
+// Flood fills only exist as pixels, so the region a fill painted is embedded as an image
+function buildFillImageSvg(before: ImageData, after: ImageData) {
+  const region = new ImageData(after.width, after.height);
+  let hasPixels = false;
+  for (let offset = 0; offset < after.data.length; offset += 4) {
+    if (
+      after.data[offset] !== before.data[offset] ||
+      after.data[offset + 1] !== before.data[offset + 1] ||
+      after.data[offset + 2] !== before.data[offset + 2] ||
+      after.data[offset + 3] !== before.data[offset + 3]
+    ) {
+      region.data.set(after.data.subarray(offset, offset + 4), offset);
+      hasPixels = true;
+    }
+  }
+  if (!hasPixels) {
+    return "";
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = region.width;
+  canvas.height = region.height;
+  canvas.getContext("2d")?.putImageData(region, 0, 0);
+  return `<image href="${canvas.toDataURL("image/png")}" x="0" y="0" width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}"/>`;
+}
+
+// Builds a vector copy of a drawing from its stroke data. Strokes are replayed on a
+// bitmap alongside so that flood fills land exactly where they did in the game. In the
+// flattened picture, erasing looks the same as painting the background back on.
+export function buildDrawingSvg(strokes: Array<DrawStroke & { id: string }>, background: string) {
+  const replay = createStrokeLayer(2);
+  const replayContext = replay.canvas.getContext("2d");
+
+  const elements = strokes.map((committedStroke) => {
+    const stroke = toVisibleStroke(committedStroke, background);
+    if (stroke.mode === "fill") {
+      if (!replayContext) {
+        return "";
+      }
+      const { width, height } = replay.canvas;
+      const before = replayContext.getImageData(0, 0, width, height);
+      drawLayerStroke(replay, committedStroke);
+      return buildFillImageSvg(before, replayContext.getImageData(0, 0, width, height));
+    }
+
+    drawLayerStroke(replay, committedStroke);
+    if (stroke.points.length < 2) {
+      return "";
+    }
+
+    const element = stroke.mode === "line" || stroke.mode === "rect" || stroke.mode === "ellipse"
+      ? buildShapeSvg(stroke)
+      : hasWidthFactors(stroke.points)
+        ? buildVariableWidthSvg(stroke)
+        : `<path d="${buildSmoothPathData(stroke.points)}" fill="none" stroke="${stroke.color}" stroke-width="${formatSvgNumber(stroke.size)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    const opacity = Math.min(1, Math.max(MIN_OPACITY, stroke.opacity ?? 1));
+    return opacity < 1 ? `<g opacity="${formatSvgNumber(opacity)}">${element}</g>` : element;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}" viewBox="0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}">`,
+    `<rect width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}" fill="${background}"/>`,
+    ...elements.filter(Boolean),
+    "</svg>"
+  ].join("\n");
+}
+
+export type DrawingExportFormat = "png" | "svg";
+
+const REPLAY_MAX_GAP_MS = 600;
+const REPLAY_FALLBACK_GAP_MS = 150;
+const REPLAY_FALLBACK_POINT_MS = 16;
+
+export type ReplayEntry = {
+  stroke: DrawStroke & { id: string };
+  start: number;
+  end: number;
+  pointTimes: number[];
+};
+
+export type ReplayTimeline = {
+  entries: ReplayEntry[];
+  duration: number;
+};
+
+// Lays the strokes out on one clock. Pauses between strokes are capped so the replay doesn't sit
+// idle while the artist was thinking; strokes saved without timestamps get a steady made-up pace.
+export function buildReplayTimeline(strokes: Array<DrawStroke & { id: string }>): ReplayTimeline {
+  let cursor = 0;
+  let previousRealEnd: number | null = null;
+
+  const entries = strokes.map((stroke, index) => {
+    const hasTimes = stroke.points.length > 0 && stroke.points.every((point) => typeof point.t === "number");
+    let lastTime = 0;
+    const pointTimes = stroke.points.map((point, pointIndex) => {
+      lastTime = hasTimes ? Math.max(lastTime, point.t ?? 0) : pointIndex * REPLAY_FALLBACK_POINT_MS;
+      return lastTime;
+    });
+    const strokeDuration = pointTimes[pointTimes.length - 1] ?? 0;
+
+    const gap = index === 0
+      ? 0
+      : stroke.startedAt && previousRealEnd !== null
+        ? Math.min(REPLAY_MAX_GAP_MS, Math.max(0, stroke.startedAt - previousRealEnd))
+        : REPLAY_FALLBACK_GAP_MS;
+    const start = cursor + gap;
+    cursor = start + strokeDuration;
+    previousRealEnd = stroke.startedAt ? stroke.startedAt + strokeDuration : null;
+
+    return { stroke, start, end: cursor, pointTimes };
+  });
+
+  return { entries, duration: cursor };
+}
+
+// Entries run back to back, so the finished ones are always a prefix of the list
+export function countFinishedReplayEntries(timeline: ReplayTimeline, time: number) {
+  let count = 0;
+  while (count < timeline.entries.length && timeline.entries[count].end <= time) {
+    count += 1;
+  }
+  return count;
+}
+
+// Draws the part of a stroke that had been drawn `time` milliseconds into the replay
+export function drawPartialReplayEntry(ctx: CanvasRenderingContext2D, entry: ReplayEntry, time: number, background: string) {
+  const elapsed = time - entry.start;
+  const { pointTimes } = entry;
+  const stroke = toVisibleStroke(entry.stroke, background);
+  if (elapsed < 0 || stroke.mode === "fill") {
+    return;
+  }
+
+  if (stroke.mode === "line" || stroke.mode === "rect" || stroke.mode === "ellipse") {
+    // Shapes only keep their two corners, so the drag is replayed as a straight pull to the far corner
+    const start = stroke.points[0];
+    const end = stroke.points[stroke.points.length - 1];
+    const progress = entry.end > entry.start ? Math.min(1, elapsed / (entry.end - entry.start)) : 1;
+    drawStroke(ctx, {
+      ...stroke,
+      points: [start, { x: start.x + (end.x - start.x) * progress, y: start.y + (end.y - start.y) * progress }]
+    });
+    return;
+  }
+
+  let visibleCount = 0;
+  while (visibleCount < pointTimes.length && pointTimes[visibleCount] <= elapsed) {
+    visibleCount += 1;
+  }
+  if (visibleCount >= 2) {
+    drawStroke(ctx, { ...stroke, points: stroke.points.slice(0, visibleCount) });
+  }
+}
@@ -16,9 +16,10 @@ const buttonClassName =
 
 type HomeProps = {
   initialJoinRoomId?: string;
+  spectate?: boolean;
 };
 
-export default function Home({ initialJoinRoomId = "" }: HomeProps) {
+export default function Home({ initialJoinRoomId = "", spectate = false }: HomeProps) {
   const dispatch = useAppDispatch();
   const { status, error } = useAppSelector((state) => state.connection);
   const isLoading = status === "loading";
@@ -46,7 +47,7 @@ export default function Home({ initialJoinRoomId = "" }: HomeProps) {
     }
 
     dispatch(clearError());
-    void dispatch(joinGame({ roomId: trimmedRoomId, username: trimmedUsername }));
+    void dispatch(joinGame({ roomId: trimmedRoomId, username: trimmedUsername, spectate }));
   }
 
   function handleCreateSubmit(event: FormEvent<HTMLFormElement>) {
@@ -88,7 +89,7 @@ export default function Home({ initialJoinRoomId = "" }: HomeProps) {
           <div className="w-full max-w-sm rounded-lg bg-[#ececec] p-6 shadow-[0_20px_35px_rgba(0,0,0,0.20)] sm:p-8">
             <form className="space-y-3" onSubmit={handleJoinSubmit}>
               <h2 className="font-['Bebas_Neue'] text-4xl leading-none tracking-wide text-zinc-950">
-                Join Game
+                {spectate ? "Spectate Game" : "Join Game"}
               </h2>
               <input
                 className={inputClassName}
@@ -107,7 +108,7 @@ export default function Home({ initialJoinRoomId = "" }: HomeProps) {
                 autoComplete="off"
               />
               <button className={buttonClassName} type="submit" disabled={isLoading} onMouseEnter={playHoverSnap}>
-                {isLoading ? "Joining..." : "Join Game"}
+                {isLoading ? "Joining..." : spectate ? "Watch Game" : "Join Game"}
               </button>
             </form>
 
@@ -1,17 +1,96 @@
 import { useEffect, useState } from "react";
 import { useAppDispatch, useAppSelector } from "../hooks";
-import { leaveLobby, startGame } from "../store";
+import {
+  banPlayer,
+  kickPlayer,
+  leaveLobby,
+  saveCustomWords,
+  setError,
+  setRoomLocked,
+  startGame,
+  switchRole,
+  transferHost,
+  updateRoomSettings,
+  updateTeams,
+  type GameMode,
+  type RoomSettings,
+  type WordCategory,
+  type WordSource
+} from "../store";
 import { useRoomSocket } from "../useRoomSocket";
 import { playButtonClick, playHoverSnap } from "../sounds";
 import VantaFog from "../components/VantaFog";
+import { getTeamColor } from "../teams";
+import CustomWordList from "../components/CustomWordList";
+import HostControls from "../components/HostControls";
 
 const SESSION_KEY = "scribble_squad_tab_session";
 const ROOM_NOT_FOUND_ERROR = "Room not found.";
+const REMOVED_FROM_ROOM_ERROR = "You were removed from the room.";
+const ROUND_DURATION_OPTIONS = [30, 45, 60, 75, 90, 120, 150, 180, 240];
+const CHOOSE_WORD_DURATION_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
+const WORD_CHOICE_COUNT_OPTIONS = [1, 2, 3, 4, 5];
+const MAX_ROUND_COUNT = 16;
+const ROUND_COUNT_OPTIONS = Array.from({ length: MAX_ROUND_COUNT + 1 }, (_, index) => index);
+const MAX_AUTO_ROUNDS = 8;
+const TEAM_COUNT_OPTIONS = [2, 3, 4];
+
+const GAME_MODE_OPTIONS: Array<{ value: GameMode; label: string }> = [
+  { value: "classic", label: "Classic" },
+  { value: "telephone", label: "Telephone" }
+];
+
+const WORD_SOURCE_OPTIONS: Array<{ value: WordSource; label: string }> = [
+  { value: "default", label: "Default words only" },
+  { value: "mixed", label: "Custom mixed with default" },
+  { value: "custom", label: "Custom words only" }
+];
+
+const WORD_CATEGORY_OPTIONS: Array<{ value: WordCategory; label: string }> = [
+  { value: "people", label: "People" },
+  { value: "characters", label: "Characters" },
+  { value: "media", label: "Games & Media" },
+  { value: "sports", label: "Sports" },
+  { value: "places", label: "Places" },
+  { value: "things", label: "Things" },
+  { value: "actions", label: "Actions" },
+  { value: "ideas", label: "Ideas" }
+];
+
+type NumericSettingKey = Exclude<keyof RoomSettings, "wordSource" | "categories" | "teamMode" | "gameMode">;
+
+type SettingField = {
+  key: NumericSettingKey;
+  label: string;
+  options: number[];
+  formatOption: (value: number) => string;
+  // Telephone only uses the round length, as the time allowed for each drawing
+  classicOnly?: boolean;
+};
+
+const SETTING_FIELDS: SettingField[] = [
+  { key: "roundDurationSeconds", label: "Round length", options: ROUND_DURATION_OPTIONS, formatOption: (value) => `${value}s` },
+  { key: "chooseWordDurationSeconds", label: "Pick time", options: CHOOSE_WORD_DURATION_OPTIONS, formatOption: (value) => `${value}s`, classicOnly: true },
+  { key: "wordChoiceCount", label: "Word choices", options: WORD_CHOICE_COUNT_OPTIONS, formatOption: (value) => String(value), classicOnly: true },
+  {
+    key: "roundCount",
+    label: "Total rounds",
+    options: ROUND_COUNT_OPTIONS,
+    formatOption: (value) => (value === 0 ? "Auto" : String(value)),
+    classicOnly: true
+  }
+];
 
 type LobbyProps = {
   routeRoomId?: string;
 };
 
+// Mirrors resolveTotalRounds on the server so the lobby can preview the automatic round count
+function getAutoRoundCount(playerCount: number, teamCount: number) {
+  const autoRounds = playerCount <= 4 ? playerCount * 2 : MAX_AUTO_ROUNDS;
+  return Math.min(Math.ceil(autoRounds / teamCount) * teamCount, Math.floor(MAX_ROUND_COUNT / teamCount) * teamCount);
+}
+
 async function copyToClipboard(value: string) {
   if (navigator.clipboard?.writeText) {
     await navigator.clipboard.writeText(value);
@@ -35,16 +114,32 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
     roomId,
     username,
     players,
+    teams,
     host,
     phase,
     status,
+    settings,
+    customWords,
+    customWordCount,
+    locked,
+    bannedPlayers,
+    spectators,
     error
   } = useAppSelector((state) => state.connection);
 
   const [copyState, setCopyState] = useState<"idle" | "copied" | "error">("idle");
   const displayRoomId = roomId || routeRoomId || "";
   const isHost = host.toLowerCase() === username.toLowerCase();
-  const canStart = isHost && players.length >= 2 && phase === "lobby" && status !== "loading";
+  const isSpectator = spectators.some((spectator) => spectator.toLowerCase() === username.toLowerCase());
+  const isTelephone = settings.gameMode === "telephone";
+  const hasWordPool = isTelephone || settings.wordSource !== "custom" || customWordCount > 0;
+  const canEditSettings = isHost && phase === "lobby";
+  const plannedRounds = settings.roundCount > 0
+    ? settings.roundCount
+    : getAutoRoundCount(players.length, settings.teamMode ? settings.teamCount : 1);
+  const hasEmptyTeam = !isTelephone && settings.teamMode && teams.some((team) => team.players.length === 0);
+  const canStart = isHost && players.length >= 2 && phase === "lobby" && status !== "loading" && hasWordPool && !hasEmptyTeam;
+  const teamByPlayer = new Map(teams.flatMap((team) => team.players.map((name) => [name, team] as const)));
 
   useRoomSocket({ roomId: displayRoomId, username });
 
@@ -58,7 +153,7 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
   }, [copyState]);
 
   useEffect(() => {
-    if (error !== ROOM_NOT_FOUND_ERROR) {
+    if (error !== ROOM_NOT_FOUND_ERROR && error !== REMOVED_FROM_ROOM_ERROR) {
       return;
     }
     try {
@@ -69,6 +164,10 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
       // ignore storage write failures
     }
     dispatch(leaveLobby());
+    // Keep the reason on screen once back home
+    if (error === REMOVED_FROM_ROOM_ERROR) {
+      dispatch(setError(error));
+    }
   }, [dispatch, error]);
 
   async function handleCopyRoomLink() {
@@ -97,6 +196,116 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
     dispatch(leaveLobby());
   }
 
+  function handleSettingChange(key: NumericSettingKey, value: number) {
+    if (!canEditSettings || settings[key] === value) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateRoomSettings({ roomId: displayRoomId, username, settings: { [key]: value } }));
+  }
+
+  function handleGameModeChange(gameMode: GameMode) {
+    if (!canEditSettings || settings.gameMode === gameMode) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateRoomSettings({ roomId: displayRoomId, username, settings: { gameMode } }));
+  }
+
+  function handleWordSourceChange(wordSource: WordSource) {
+    if (!canEditSettings || settings.wordSource === wordSource) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateRoomSettings({ roomId: displayRoomId, username, settings: { wordSource } }));
+  }
+
+  function handleToggleCategory(category: WordCategory) {
+    if (!canEditSettings) {
+      return;
+    }
+    const categories = settings.categories.includes(category)
+      ? settings.categories.filter((entry) => entry !== category)
+      : [...settings.categories, category];
+    if (categories.length === 0) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateRoomSettings({ roomId: displayRoomId, username, settings: { categories } }));
+  }
+
+  function handleToggleTeamMode() {
+    if (!canEditSettings) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateRoomSettings({ roomId: displayRoomId, username, settings: { teamMode: !settings.teamMode } }));
+  }
+
+  function handleBalanceTeams() {
+    if (!canEditSettings || !settings.teamMode) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateTeams({ roomId: displayRoomId, username, balance: true }));
+  }
+
+  function handleMovePlayer(player: string, team: number) {
+    if (!canEditSettings || !settings.teamMode) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(updateTeams({ roomId: displayRoomId, username, player, team }));
+  }
+
+  function handleSaveCustomWords(words: string[]) {
+    if (!canEditSettings) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(saveCustomWords({ roomId: displayRoomId, username, words }));
+  }
+
+  function handleToggleLock() {
+    if (!isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(setRoomLocked({ roomId: displayRoomId, username, locked: !locked }));
+  }
+
+  function handleKickPlayer(player: string) {
+    if (!isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(kickPlayer({ roomId: displayRoomId, username, player }));
+  }
+
+  function handleBanPlayer(player: string, banned = true) {
+    if (!isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(banPlayer({ roomId: displayRoomId, username, player, banned }));
+  }
+
+  function handleTransferHost(player: string) {
+    if (!isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(transferHost({ roomId: displayRoomId, username, player }));
+  }
+
+  function handleSwitchRole() {
+    if (isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(switchRole({ roomId: displayRoomId, username, role: isSpectator ? "player" : "spectator" }));
+  }
+
   function handleStartGame() {
     if (!canStart) {
       return;
@@ -134,6 +343,21 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
             {copyState === "copied" ? "Copied" : "Copy Link"}
           </button>
           {copyState === "error" && <span className="text-sm font-semibold text-red-100">Copy failed</span>}
+          {isHost ? (
+            <button
+              type="button"
+              aria-pressed={locked}
+              className={`rounded px-3 py-1.5 text-sm font-bold tracking-wide text-white transition ${
+                locked ? "bg-red-600 hover:bg-red-700" : "bg-white/20 hover:bg-white/30"
+              }`}
+              onClick={handleToggleLock}
+              onMouseEnter={playHoverSnap}
+            >
+              {locked ? "Unlock Room" : "Lock Room"}
+            </button>
+          ) : (
+            locked && <span className="rounded bg-red-600 px-3 py-1.5 text-sm font-bold tracking-wide text-white">Locked</span>
+          )}
         </div>
 
         <section className="mt-6 rounded-lg bg-zinc-100 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)] sm:p-6">
@@ -152,15 +376,292 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
                     {player.name.toLowerCase() === username.toLowerCase() ? " (you)" : ""}
                   </span>
                 </div>
-                {player.name.toLowerCase() === host.toLowerCase() && (
-                  <span className="rounded bg-orange-500 px-2 py-1 text-xs font-bold uppercase tracking-wide text-white">
-                    Host
-                  </span>
-                )}
+                <div className="flex items-center gap-2">
+                  {player.name.toLowerCase() === host.toLowerCase() && (
+                    <span className="rounded bg-orange-500 px-2 py-1 text-xs font-bold uppercase tracking-wide text-white">
+                      Host
+                    </span>
+                  )}
+                  {isHost && player.name.toLowerCase() !== username.toLowerCase() && (
+                    <HostControls
+                      playerName={player.name}
+                      onKick={handleKickPlayer}
+                      onBan={handleBanPlayer}
+                      onMakeHost={handleTransferHost}
+                    />
+                  )}
+                  {settings.teamMode && !isTelephone && canEditSettings && (
+                    <select
+                      aria-label={`Team for ${player.name}`}
+                      className="h-8 cursor-pointer rounded border border-zinc-300 bg-white px-1 text-sm font-bold"
+                      style={{ color: getTeamColor(teamByPlayer.get(player.name)?.id ?? 0) }}
+                      value={teamByPlayer.get(player.name)?.id ?? 0}
+                      onChange={(event) => handleMovePlayer(player.name, Number(event.target.value))}
+                    >
+                      {teams.map((team) => (
+                        <option key={team.id} value={team.id}>
+                          {team.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {settings.teamMode && !isTelephone && !canEditSettings && teamByPlayer.has(player.name) && (
+                    <span
+                      className="rounded px-2 py-1 text-xs font-bold uppercase tracking-wide text-white"
+                      style={{ backgroundColor: getTeamColor(teamByPlayer.get(player.name)?.id ?? 0) }}
+                    >
+                      {teamByPlayer.get(player.name)?.name}
+                    </span>
+                  )}
+                </div>
               </li>
             ))}
             {players.length === 0 && <li className="py-5 text-xl font-semibold text-zinc-600">Waiting for players...</li>}
           </ul>
+          {spectators.length > 0 && (
+            <div className="mt-3 border-t border-zinc-300 pt-3">
+              <p className="text-sm font-bold uppercase tracking-wide text-zinc-600">Spectators</p>
+              <ul className="mt-1 flex flex-wrap gap-1.5">
+                {spectators.map((spectator) => (
+                  <li key={spectator} className="flex items-center gap-1.5 rounded bg-zinc-300 px-2 py-0.5 text-sm font-semibold text-zinc-800">
+                    {spectator}
+                    {spectator.toLowerCase() === username.toLowerCase() ? " (you)" : ""}
+                    {isHost && (
+                      <button
+                        type="button"
+                        title={`Kick ${spectator}`}
+                        className="text-xs font-bold uppercase text-red-600 transition hover:text-red-800"
+                        onClick={() => handleKickPlayer(spectator)}
+                      >
+                        Kick
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {!isHost && (
+            <button
+              type="button"
+              className="mt-3 rounded bg-[#10a4e4] px-3 py-1.5 text-sm font-bold tracking-wide text-white transition enabled:hover:bg-[#0e8fcb] disabled:opacity-60"
+              disabled={phase !== "lobby" || status === "loading"}
+              onClick={handleSwitchRole}
+              onMouseEnter={playHoverSnap}
+            >
+              {isSpectator ? "Join as Player" : "Spectate Instead"}
+            </button>
+          )}
+          {bannedPlayers.length > 0 && (
+            <div className="mt-3 border-t border-zinc-300 pt-3">
+              <p className="text-sm font-bold uppercase tracking-wide text-zinc-600">Banned</p>
+              <ul className="mt-1 flex flex-wrap gap-1.5">
+                {bannedPlayers.map((playerName) => (
+                  <li key={playerName} className="flex items-center gap-1.5 rounded bg-zinc-300 px-2 py-0.5 text-sm font-semibold text-zinc-800">
+                    {playerName}
+                    <button
+                      type="button"
+                      title={`Unban ${playerName}`}
+                      className="text-xs font-bold uppercase text-red-600 transition hover:text-red-800"
+                      onClick={() => handleBanPlayer(playerName, false)}
+                    >
+                      Unban
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        <section className="mt-4 rounded-lg bg-zinc-100 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)] sm:p-6">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="font-['Bebas_Neue'] text-3xl leading-none tracking-wide text-zinc-800">Settings</h2>
+            <span className="text-sm font-semibold text-zinc-600">
+              {isTelephone
+                ? `${players.length} ${players.length === 1 ? "step" : "steps"} per chain`
+                : `${plannedRounds} ${plannedRounds === 1 ? "round" : "rounds"}${settings.roundCount === 0 ? " (auto)" : ""}`}
+            </span>
+          </div>
+          <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <label className="flex flex-col gap-1 text-sm font-bold uppercase tracking-wide text-zinc-600">
+              Game mode
+              {canEditSettings ? (
+                <select
+                  className="h-10 cursor-pointer rounded-md border border-zinc-300 bg-white px-2 text-base font-semibold normal-case tracking-normal text-zinc-800"
+                  value={settings.gameMode}
+                  onChange={(event) => handleGameModeChange(event.target.value as GameMode)}
+                >
+                  {GAME_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="flex h-10 items-center rounded-md bg-zinc-200 px-2 text-base font-semibold normal-case tracking-normal text-zinc-800">
+                  {GAME_MODE_OPTIONS.find((option) => option.value === settings.gameMode)?.label}
+                </span>
+              )}
+            </label>
+            {SETTING_FIELDS.filter((field) => !isTelephone || !field.classicOnly).map((field) => (
+              <label key={field.key} className="flex flex-col gap-1 text-sm font-bold uppercase tracking-wide text-zinc-600">
+                {field.label}
+                {canEditSettings ? (
+                  <select
+                    className="h-10 cursor-pointer rounded-md border border-zinc-300 bg-white px-2 text-base font-semibold normal-case tracking-normal text-zinc-800"
+                    value={settings[field.key]}
+                    onChange={(event) => handleSettingChange(field.key, Number(event.target.value))}
+                  >
+                    {field.options.map((option) => (
+                      <option key={option} value={option}>
+                        {field.formatOption(option)}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="flex h-10 items-center rounded-md bg-zinc-200 px-2 text-base font-semibold normal-case tracking-normal text-zinc-800">
+                    {field.formatOption(settings[field.key])}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+
+          {isTelephone && (
+            <p className="mt-3 text-sm font-semibold text-zinc-600">
+              Everyone writes a prompt, then the chains pass around: draw the text you get, describe the drawing you get, and
+              reveal every chain at the end.
+            </p>
+          )}
+
+          {!isTelephone && (
+            <>
+              <div className="mt-5 border-t border-zinc-300 pt-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="flex flex-col gap-1 text-sm font-bold uppercase tracking-wide text-zinc-600">
+                    Teams
+                    <button
+                      type="button"
+                      aria-pressed={settings.teamMode}
+                      className={`h-10 rounded-md px-4 text-base font-semibold normal-case tracking-normal transition disabled:cursor-default ${
+                        settings.teamMode ? "bg-[#10a4e4] text-white enabled:hover:bg-[#0e8fcb]" : "bg-zinc-300 text-zinc-700 enabled:hover:bg-zinc-400"
+                      }`}
+                      disabled={!canEditSettings}
+                      onClick={handleToggleTeamMode}
+                    >
+                      {settings.teamMode ? "Team mode on" : "Everyone for themselves"}
+                    </button>
+                  </div>
+                  {settings.teamMode && (
+                    <label className="flex flex-col gap-1 text-sm font-bold uppercase tracking-wide text-zinc-600">
+                      Team count
+                      {canEditSettings ? (
+                        <select
+                          className="h-10 cursor-pointer rounded-md border border-zinc-300 bg-white px-2 text-base font-semibold normal-case tracking-normal text-zinc-800"
+                          value={settings.teamCount}
+                          onChange={(event) => handleSettingChange("teamCount", Number(event.target.value))}
+                        >
+                          {TEAM_COUNT_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="flex h-10 items-center rounded-md bg-zinc-200 px-2 text-base font-semibold normal-case tracking-normal text-zinc-800">
+                          {settings.teamCount}
+                        </span>
+                      )}
+                    </label>
+                  )}
+                  {settings.teamMode && canEditSettings && (
+                    <button
+                      type="button"
+                      className="h-10 rounded-md bg-slate-600 px-4 text-base font-semibold text-white transition hover:bg-slate-700"
+                      onClick={handleBalanceTeams}
+                    >
+                      Auto-balance
+                    </button>
+                  )}
+                </div>
+                {settings.teamMode && (
+                  <ul className="mt-3 flex flex-wrap gap-2">
+                    {teams.map((team) => (
+                      <li
+                        key={team.id}
+                        className="rounded px-2.5 py-1 text-sm font-bold text-white"
+                        style={{ backgroundColor: getTeamColor(team.id) }}
+                      >
+                        {team.name}: {team.players.length} {team.players.length === 1 ? "player" : "players"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {hasEmptyTeam && (
+                  <p className="mt-2 text-sm font-semibold text-orange-600">Every team needs at least one player before starting.</p>
+                )}
+              </div>
+
+              <div className="mt-5 border-t border-zinc-300 pt-4">
+                <label className="flex flex-col gap-1 text-sm font-bold uppercase tracking-wide text-zinc-600 sm:max-w-xs">
+                  Words
+                  {canEditSettings ? (
+                    <select
+                      className="h-10 cursor-pointer rounded-md border border-zinc-300 bg-white px-2 text-base font-semibold normal-case tracking-normal text-zinc-800"
+                      value={settings.wordSource}
+                      onChange={(event) => handleWordSourceChange(event.target.value as WordSource)}
+                    >
+                      {WORD_SOURCE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="flex h-10 items-center rounded-md bg-zinc-200 px-2 text-base font-semibold normal-case tracking-normal text-zinc-800">
+                      {WORD_SOURCE_OPTIONS.find((option) => option.value === settings.wordSource)?.label}
+                      {settings.wordSource !== "default" ? ` (${customWordCount} custom)` : ""}
+                    </span>
+                  )}
+                </label>
+                {settings.wordSource !== "custom" && (
+                  <div className="mt-3">
+                    <p className="text-sm font-bold uppercase tracking-wide text-zinc-600">Categories</p>
+                    <div className="mt-1 flex flex-wrap gap-1.5">
+                      {WORD_CATEGORY_OPTIONS.map((option) => {
+                        const isSelected = settings.categories.includes(option.value);
+                        return (
+                          <button
+                            key={option.value}
+                            type="button"
+                            aria-pressed={isSelected}
+                            className={`rounded px-2.5 py-1 text-sm font-bold transition disabled:cursor-default ${
+                              isSelected ? "bg-[#10a4e4] text-white enabled:hover:bg-[#0e8fcb]" : "bg-zinc-300 text-zinc-600 enabled:hover:bg-zinc-400"
+                            }`}
+                            disabled={!canEditSettings || (isSelected && settings.categories.length === 1)}
+                            onClick={() => handleToggleCategory(option.value)}
+                          >
+                            {option.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                {canEditSettings && (
+                  <div className="mt-3">
+                    <CustomWordList savedWords={customWords} disabled={status === "loading"} onSave={handleSaveCustomWords} />
+                    {settings.wordSource === "custom" && customWordCount === 0 && (
+                      <p className="mt-2 text-sm font-semibold text-orange-600">
+                        Save at least one custom word before starting, or pick another word source.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
         </section>
 
         <button
@@ -175,7 +676,7 @@ export default function Lobby({ routeRoomId }: LobbyProps) {
 
         {!isHost && (
           <p className="mt-3 text-sm font-semibold text-white/90">
-            Only the host can start the game.
+            Only the host can start the game or change the settings.
           </p>
         )}
         {isHost && players.length < 2 && (
@@ -1,7 +1,59 @@
 import { useEffect, useMemo, useRef, useState, type FormEvent, type PointerEvent as ReactPointerEvent } from "react";
 import { useAppDispatch, useAppSelector } from "../hooks";
-import { chooseWord, clearCanvas, leaveLobby, sendGuess, sendStroke, undoStroke, type StrokePoint } from "../store";
+import {
+  chooseWord,
+  clearCanvas,
+  leaveLobby,
+  redoStroke,
+  returnToLobby,
+  sendGuess,
+  sendSpectatorChat,
+  sendStroke,
+  sendStrokeGroup,
+  setCanvasBackground,
+  setError,
+  setRoomLocked,
+  fetchRoundDrawing,
+  banPlayer,
+  kickPlayer,
+  transferHost,
+  undoStroke,
+  voteKick,
+  voteSkip,
+  type RoundDrawing,
+  type RoundDrawingSummary,
+  type StrokeMode,
+  type StrokePoint,
+  type WordDifficulty
+} from "../store";
 import { useRoomSocket } from "../useRoomSocket";
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  FILL_TOLERANCE,
+  MIN_POINT_DISTANCE,
+  DEFAULT_VIEW,
+  applyLogicalTransform,
+  buildDrawingSvg,
+  clampView,
+  createStrokeLayer,
+  createStrokeSimplifier,
+  drawStroke,
+  drawSymmetryGuides,
+  getCanvasPixelRatio,
+  getSimplifyTolerance,
+  mirrorStrokePoints,
+  pressureToWidthFactor,
+  renderDrawingToCanvas,
+  sampleCanvasColor,
+  settleStrokePoints,
+  syncStrokeLayer,
+  type CanvasView,
+  type DrawingExportFormat,
+  type StrokeLayer,
+  type StrokeSimplifier,
+  type SymmetryMode
+} from "../drawing";
 import pencilIcon from "../assets/tools/pencil2.png";
 import eraserIcon from "../assets/tools/eraser2.png";
 import paintBucketIcon from "../assets/tools/paint_bucket2.png";
@@ -11,19 +63,59 @@ import alarmClockIcon from "../assets/ui/alarm_clock.png";
 import { playButtonClick, playHoverSnap, playRoundStart, playRoundEnd, playClockTick, playCorrectGuess, playGameOver, playConfettiCannon, playConfettiPop } from "../sounds";
 import VantaFog from "../components/VantaFog";
 import ConfettiBackground from "../components/ConfettiBackground";
+import ColorPicker from "../components/ColorPicker";
+import SaveDrawingMenu from "../components/SaveDrawingMenu";
+import ReplayPlayer from "../components/ReplayPlayer";
+import HostControls from "../components/HostControls";
+import { getTeamColor } from "../teams";
 
 const SESSION_KEY = "scribble_squad_tab_session";
+const RECENT_COLORS_KEY = "scribble_squad_recent_colors";
+const MAX_RECENT_COLORS = 8;
 const ROOM_NOT_FOUND_ERROR = "Room not found.";
-const CANVAS_WIDTH = 760;
-const CANVAS_HEIGHT = 620;
-const ROUND_DURATION_SECONDS = 90;
-const CHOOSE_WORD_DURATION_SECONDS = 20;
+const REMOVED_FROM_ROOM_ERROR = "You were removed from the room.";
 const CANVAS_BACKGROUND = "#ececec";
+const DIFFICULTY_BADGE_CLASSES: Record<WordDifficulty, string> = {
+  easy: "bg-green-600 text-white",
+  medium: "bg-amber-500 text-white",
+  hard: "bg-red-600 text-white"
+};
+const STROKE_DELTA_INTERVAL_MS = 40;
+const STROKE_DELTA_MAX_POINTS = 64;
 const DRAW_COLORS = [
   "#FFFFFF", "#9CA3AF", "#FFF000", "#FFB000", "#FF1500", "#D59549", "#F0B6CF", "#E90CF0", "#1717E0", "#17E5E5", "#00FF00",
   "#D9D9D9", "#000000", "#F2CC0C", "#EE7A16", "#B50000", "#AF5B16", "#DC6EA7", "#9707A2", "#22228F", "#2999F0", "#008F00"
 ];
 const THICKNESS_OPTIONS = [3, 6, 10, 14, 18];
+const MARKER_OPACITY = 0.4;
+const MARKER_SIZE_MULTIPLIER = 2;
+const MAX_BRUSH_SIZE = 24;
+const DOUBLE_TAP_MS = 300;
+const HINT_REVEAL_ANIMATION_MS = 1200;
+// Matches the server; smaller rooms would let a single vote kick someone
+const MIN_KICK_VOTE_PLAYERS = 3;
+const MAX_SPECTATOR_MESSAGE_LENGTH = 160;
+const DOUBLE_TAP_DISTANCE = 30;
+const TAP_MOVE_TOLERANCE = 10;
+const MINIMAP_WIDTH = 152;
+const MINIMAP_HEIGHT = 124;
+const SYMMETRY_OPTIONS: Array<{ mode: SymmetryMode; label: string; icon: string }> = [
+  { mode: "off", label: "No symmetry", icon: "Off" },
+  { mode: "horizontal", label: "Mirror left and right", icon: "↔" },
+  { mode: "vertical", label: "Mirror top and bottom", icon: "↕" },
+  { mode: "quad", label: "Mirror into four quarters", icon: "✣" }
+];
+const KEYBOARD_SHORTCUTS: Array<{ keys: string; label: string }> = [
+  { keys: "B", label: "Brush" },
+  { keys: "E", label: "Eraser" },
+  { keys: "F", label: "Fill bucket" },
+  { keys: "1 - 5", label: "Brush thickness" },
+  { keys: "[ / ]", label: "Previous / next color" },
+  { keys: "Ctrl + Z", label: "Undo" },
+  { keys: "Ctrl + Shift + Z", label: "Redo" },
+  { keys: "Enter", label: "Focus the guess box" },
+  { keys: "?", label: "Show or hide shortcuts" }
+];
 const CHAT_TEXT_COLORS = [
   "#2563eb", "#8b5cf6", "#ef4444", "#16a34a", "#0d9488", "#ea580c", "#db2777", "#4f46e5", "#1d4ed8", "#be123c"
 ];
@@ -32,15 +124,43 @@ type RoomProps = {
   routeRoomId?: string;
 };
 
-type DrawTool = "brush" | "eraser" | "bucket";
+type ShapeTool = "line" | "rect" | "ellipse";
 
-type DrawStroke = {
-  mode: "stroke" | "fill";
-  color: string;
-  size: number;
-  points: StrokePoint[];
+// Pinch and pan state for a guesser's view. Each time a finger goes down or up the gesture is
+// re-based on the current view, so switching between one and two fingers never jumps.
+type ViewGesture = {
+  pointers: Map<number, { x: number; y: number }>;
+  startView: CanvasView;
+  startCenter: { x: number; y: number };
+  startDistance: number;
+  travel: number;
 };
 
+type DrawTool = "brush" | "marker" | "eraser" | "bucket" | "eyedropper" | ShapeTool;
+
+type PodiumEntry = { name: string; score: number; color: string };
+
+const SHAPE_TOOLS: Array<{ tool: ShapeTool; label: string }> = [
+  { tool: "line", label: "Line" },
+  { tool: "rect", label: "Rectangle" },
+  { tool: "ellipse", label: "Ellipse" }
+];
+
+function isShapeTool(tool: DrawTool): tool is ShapeTool {
+  return tool === "line" || tool === "rect" || tool === "ellipse";
+}
+
+function renderShapeIcon(tool: ShapeTool, filled: boolean) {
+  const fill = filled ? "currentColor" : "none";
+  return (
+    <svg viewBox="0 0 20 20" className="h-5 w-5" aria-hidden="true">
+      {tool === "line" && <line x1="3" y1="17" x2="17" y2="3" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" />}
+      {tool === "rect" && <rect x="3" y="5" width="14" height="10" rx="1" fill={fill} stroke="currentColor" strokeWidth="2.5" />}
+      {tool === "ellipse" && <ellipse cx="10" cy="10" rx="7.5" ry="5.5" fill={fill} stroke="currentColor" strokeWidth="2.5" />}
+    </svg>
+  );
+}
+
 function createCursorDot(color: string, size: number) {
   const cursorSize = Math.max(14, Math.min(28, size + 10));
   const center = Math.floor(cursorSize / 2);
@@ -49,27 +169,58 @@ function createCursorDot(color: string, size: number) {
   return `url("data:image/svg+xml,${encodeURIComponent(svg)}") ${center} ${center}, crosshair`;
 }
 
-function drawStroke(ctx: CanvasRenderingContext2D, stroke: DrawStroke) {
-  if (stroke.mode === "fill") {
-    ctx.fillStyle = stroke.color;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    return;
+function readRecentColors() {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(RECENT_COLORS_KEY) || "[]");
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((value): value is string => typeof value === "string" && /^#[0-9A-F]{6}$/i.test(value))
+      .slice(0, MAX_RECENT_COLORS);
+  } catch {
+    return [];
   }
+}
 
-  if (stroke.points.length < 2) {
-    return;
+function writeRecentColors(colors: string[]) {
+  try {
+    window.localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(colors));
+  } catch {
+    // ignore storage write failures
   }
+}
 
-  ctx.lineCap = "round";
-  ctx.lineJoin = "round";
-  ctx.strokeStyle = stroke.color;
-  ctx.lineWidth = stroke.size;
-  ctx.beginPath();
-  ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-  for (let index = 1; index < stroke.points.length; index += 1) {
-    ctx.lineTo(stroke.points[index].x, stroke.points[index].y);
+// Shortcuts stay off while the user is typing, so letters and Enter reach the input instead
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) {
+    return false;
   }
-  ctx.stroke();
+  const tagName = target.tagName;
+  return tagName === "INPUT" || tagName === "TEXTAREA" || tagName === "SELECT" || target.isContentEditable;
+}
+
+function createStrokeId() {
+  return `stroke_${Date.now()}_${Math.floor(Math.random() * 1_000_000)}`;
+}
+
+function toFileNamePart(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "drawing";
+}
+
+function createDrawingFileName(drawing: RoundDrawingSummary, format: DrawingExportFormat) {
+  return `${toFileNamePart(drawing.word)}-by-${toFileNamePart(drawing.artist)}.${format}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 function hashName(value: string) {
@@ -177,7 +328,10 @@ function createCannonPieces() {
 }
 
 function renderSystemMessageText(messageText: string) {
-  const correctGuessMatch = messageText.match(/^(.*guessed correctly!\s)(\+\d+\s+points\.)$/i);
+  // Team steals award points the same way a correct guess does
+  const correctGuessMatch = messageText.match(
+    /^(.*(?:guessed correctly|stole the word for team .+)!\s)(\+\d+\s+points\.)$/i
+  );
   if (correctGuessMatch) {
     return (
       <>
@@ -214,6 +368,7 @@ export default function Room({ routeRoomId }: RoomProps) {
     roomId,
     username,
     players,
+    teams,
     host,
     drawer,
     phase,
@@ -223,45 +378,103 @@ export default function Room({ routeRoomId }: RoomProps) {
     guessedPlayers,
     messages,
     strokes,
+    liveStrokes,
+    background,
+    canUndo,
+    canRedo,
+    roundDrawings,
+    settings,
     chooseEndsAt,
     roundEndsAt,
     roundNumber,
     totalRounds,
     roundsCompleted,
+    votes,
+    spectators,
+    locked,
     error
   } = useAppSelector((state) => state.connection);
 
   const displayRoomId = roomId || routeRoomId || "";
   const [brushColor, setBrushColor] = useState("#000000");
+  const [recentColors, setRecentColors] = useState<string[]>(readRecentColors);
+  const [isColorPickerOpen, setIsColorPickerOpen] = useState(false);
   const [brushSize, setBrushSize] = useState(6);
+  const [brushOpacity, setBrushOpacity] = useState(1);
   const [activeTool, setActiveTool] = useState<DrawTool>("brush");
-  const [activeAction, setActiveAction] = useState<"undo" | "delete" | null>(null);
+  const [shapeFilled, setShapeFilled] = useState(false);
+  const [pressureEnabled, setPressureEnabled] = useState(false);
+  const [symmetryMode, setSymmetryMode] = useState<SymmetryMode>("off");
+  const [activeAction, setActiveAction] = useState<"undo" | "redo" | "delete" | null>(null);
   const [isChoosingWordSubmitting, setIsChoosingWordSubmitting] = useState(false);
   const [guessText, setGuessText] = useState("");
   const [isDrawing, setIsDrawing] = useState(false);
   const [liveStrokePoints, setLiveStrokePoints] = useState<StrokePoint[]>([]);
   const [nowTs, setNowTs] = useState(() => Date.now());
   const [showGameOverTransition, setShowGameOverTransition] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [freshHintIndices, setFreshHintIndices] = useState<number[]>([]);
+  const previousWordDisplayRef = useRef("");
+  const [pixelRatio, setPixelRatio] = useState(1);
+  const [savingDrawingId, setSavingDrawingId] = useState<string | null>(null);
+  const [replayDrawing, setReplayDrawing] = useState<RoundDrawing | null>(null);
+  const [view, setView] = useState<CanvasView>(DEFAULT_VIEW);
 
   const drawingPointsRef = useRef<StrokePoint[]>([]);
+  // One id per copy while drawing with symmetry; the first is the stroke under the pointer
+  const drawingStrokeIdsRef = useRef<string[]>([]);
+  const drawingSymmetryRef = useRef<SymmetryMode>("off");
+  const drawingStartedAtRef = useRef(0);
+  const sentPointCountRef = useRef(0);
+  const strokeSimplifierRef = useRef<StrokeSimplifier | null>(null);
+  const strokeDeltaTimerRef = useRef<number | null>(null);
   const pendingStrokeRef = useRef(false);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const strokeLayerRef = useRef<StrokeLayer | null>(null);
   const chatListRef = useRef<HTMLDivElement | null>(null);
-
-  const activeStrokeColor = activeTool === "eraser" ? CANVAS_BACKGROUND : brushColor;
-  const drawerCursor = useMemo(() => createCursorDot(brushColor, brushSize), [brushColor, brushSize]);
+  const guessInputRef = useRef<HTMLInputElement | null>(null);
+  const shortcutHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  const minimapCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const viewRef = useRef<CanvasView>(DEFAULT_VIEW);
+  const viewGestureRef = useRef<ViewGesture | null>(null);
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null);
+  const roundDrawingCacheRef = useRef(new Map<string, RoundDrawing>());
+
+  // The eraser streams and previews in the background color; the committed stroke is a real erase
+  const activeStrokeColor = activeTool === "eraser" ? background : brushColor;
+  // The marker is a wider brush that always draws see-through
+  const activeStrokeSize = activeTool === "marker" ? Math.min(MAX_BRUSH_SIZE, brushSize * MARKER_SIZE_MULTIPLIER) : brushSize;
+  const activeStrokeOpacity = activeTool === "eraser"
+    ? 1
+    : activeTool === "marker"
+      ? Math.min(brushOpacity, MARKER_OPACITY)
+      : brushOpacity;
+  const liveStrokeMode: StrokeMode = isShapeTool(activeTool) ? activeTool : "stroke";
+  // Only freehand strokes are mirrored
+  const activeSymmetry: SymmetryMode =
+    activeTool === "brush" || activeTool === "marker" || activeTool === "eraser" ? symmetryMode : "off";
+  const isZoomed = view.scale > 1;
+  const drawerCursor = useMemo(
+    () => (activeTool === "eyedropper" ? "crosshair" : createCursorDot(brushColor, activeStrokeSize)),
+    [activeStrokeSize, activeTool, brushColor]
+  );
   const isDrawer = Boolean(drawer) && drawer.toLowerCase() === username.toLowerCase();
+  const isHost = host.toLowerCase() === username.toLowerCase();
+  const isSpectator = spectators.some((spectator) => spectator.toLowerCase() === username.toLowerCase());
   const drawerDisplayName = drawer || "Drawer";
   const isChoosingWordPhase = phase === "choosing_word";
   const isDrawerChoosingWord = isChoosingWordPhase && isDrawer;
   const isWaitingForDrawerWord = isChoosingWordPhase && !isDrawer;
   const isGameOver = phase === "game_over";
+  const latestRoundDrawing = roundDrawings[roundDrawings.length - 1] || null;
   const guessedPlayerSet = useMemo(
     () => new Set(guessedPlayers.map((playerName) => playerName.toLowerCase())),
     [guessedPlayers]
   );
   const hasGuessedCurrentRound = guessedPlayerSet.has(username.toLowerCase());
-  const canSubmitGuess = phase === "playing" && !canDraw && !hasGuessedCurrentRound;
+  // Spectators can always talk among themselves; their chat never reaches the players
+  const canSubmitGuess = isSpectator || (phase === "playing" && !canDraw && !hasGuessedCurrentRound);
   const chooseSecondsLeft = phase === "choosing_word" && chooseEndsAt > 0
     ? Math.max(0, Math.ceil((chooseEndsAt - nowTs) / 1000))
     : 0;
@@ -269,10 +482,22 @@ export default function Room({ routeRoomId }: RoomProps) {
     ? Math.max(0, Math.ceil((roundEndsAt - nowTs) / 1000))
     : 0;
   const displayedTotalRounds = Math.max(totalRounds, roundsCompleted, 1);
+  const skipVote = votes.skip && votes.skip.endsAt > nowTs ? votes.skip : null;
+  const kickVote = votes.kick && votes.kick.endsAt > nowTs ? votes.kick : null;
+  const canVoteSkip = phase === "playing" && !isDrawer && !isSpectator && (skipVote ? !skipVote.hasVoted : votes.cooldowns.skip <= nowTs);
+  const canStartKickVote = !isSpectator && !kickVote && votes.cooldowns.kick <= nowTs && players.length >= MIN_KICK_VOTE_PLAYERS;
   const rankedPlayers = useMemo(
     () => [...players].sort((left, right) => right.score - left.score || left.name.localeCompare(right.name)),
     [players]
   );
+  const rankedTeams = useMemo(
+    () => [...teams].sort((left, right) => right.score - left.score || left.id - right.id),
+    [teams]
+  );
+  const teamByPlayer = useMemo(
+    () => new Map(teams.flatMap((team) => team.players.map((name) => [name, team] as const))),
+    [teams]
+  );
   const navWordValue = useMemo(() => {
     if (isDrawerChoosingWord) {
       return "Picking...";
@@ -289,7 +514,7 @@ export default function Room({ routeRoomId }: RoomProps) {
     if (canDraw || phase !== "playing") {
       return 0;
     }
-    return (wordDisplay.match(/_/g) || []).length;
+    return (wordDisplay.match(/[A-Za-z0-9_]/g) || []).length;
   }, [canDraw, phase, wordDisplay]);
   const shouldTrackMaskedWord = !canDraw && /_/.test(navWordValue);
   const navRoundLabel = `Round ${Math.max(1, roundNumber)} of ${displayedTotalRounds}`;
@@ -300,18 +525,35 @@ export default function Room({ routeRoomId }: RoomProps) {
       : 0;
   const navProgressRatio = useMemo(() => {
     if (phase === "playing") {
-      return clampRatio(timerSecondsLeft / ROUND_DURATION_SECONDS);
+      return clampRatio(timerSecondsLeft / settings.roundDurationSeconds);
     }
     if (phase === "choosing_word") {
-      return clampRatio(chooseSecondsLeft / CHOOSE_WORD_DURATION_SECONDS);
+      return clampRatio(chooseSecondsLeft / settings.chooseWordDurationSeconds);
     }
     return 0;
-  }, [chooseSecondsLeft, phase, timerSecondsLeft]);
+  }, [chooseSecondsLeft, phase, settings, timerSecondsLeft]);
   const navProgressWidth = `${Math.round(navProgressRatio * 100)}%`;
   const navProgressColor = getTimerProgressColor(navProgressRatio);
   const waitingOverlayText = `${drawerDisplayName} is thinking real hard ${chooseSecondsLeft} seconds to pick`;
 
-  useRoomSocket({ roomId: displayRoomId, username });
+  const { sendStrokeDelta, sendStrokeCancel } = useRoomSocket({ roomId: displayRoomId, username });
+
+  // Letters the server just revealed are the ones that were masked in the previous snapshot
+  useEffect(() => {
+    const previousWordDisplay = previousWordDisplayRef.current;
+    previousWordDisplayRef.current = wordDisplay;
+
+    const revealedIndices = !canDraw && phase === "playing" && previousWordDisplay.length === wordDisplay.length
+      ? Array.from(wordDisplay).flatMap((char, index) => (previousWordDisplay[index] === "_" && char !== "_" ? [index] : []))
+      : [];
+    setFreshHintIndices(revealedIndices);
+    if (revealedIndices.length === 0) {
+      return;
+    }
+
+    const timerId = window.setTimeout(() => setFreshHintIndices([]), HINT_REVEAL_ANIMATION_MS);
+    return () => window.clearTimeout(timerId);
+  }, [canDraw, phase, wordDisplay]);
 
   useEffect(() => {
     const chatElement = chatListRef.current;
@@ -335,7 +577,7 @@ export default function Room({ routeRoomId }: RoomProps) {
   }, []);
 
   useEffect(() => {
-    if (error !== ROOM_NOT_FOUND_ERROR) {
+    if (error !== ROOM_NOT_FOUND_ERROR && error !== REMOVED_FROM_ROOM_ERROR) {
       return;
     }
     try {
@@ -346,6 +588,10 @@ export default function Room({ routeRoomId }: RoomProps) {
       // ignore storage write failures
     }
     dispatch(leaveLobby());
+    // Keep the reason on screen once back home
+    if (error === REMOVED_FROM_ROOM_ERROR) {
+      dispatch(setError(error));
+    }
   }, [dispatch, error]);
 
   useEffect(() => {
@@ -376,6 +622,7 @@ export default function Room({ routeRoomId }: RoomProps) {
     }
 
     playGameOver();
+    setReplayDrawing(null);
 
     setShowGameOverTransition(true);
     const timerId = window.setTimeout(() => {
@@ -425,42 +672,156 @@ export default function Room({ routeRoomId }: RoomProps) {
     prevMsgCountRef.current = messages.length;
   }, [messages, phase]);
 
+  // Size the canvas backing stores to the on-screen size and device pixel ratio so strokes stay sharp
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) {
       return;
     }
 
-    const context = canvas.getContext("2d");
+    const updatePixelRatio = () => setPixelRatio(getCanvasPixelRatio(canvas.clientWidth));
+    updatePixelRatio();
+
+    const resizeObserver = new ResizeObserver(updatePixelRatio);
+    resizeObserver.observe(canvas);
+    // Moving the window to a screen with a different density doesn't resize the element
+    window.addEventListener("resize", updatePixelRatio);
+    return () => {
+      resizeObserver.disconnect();
+      window.removeEventListener("resize", updatePixelRatio);
+    };
+  }, [isGameOver]);
+
+  // Committed strokes live in a cached bitmap that only replays when the stroke list changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
     if (!context) {
       return;
     }
 
-    context.fillStyle = CANVAS_BACKGROUND;
-    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (!strokeLayerRef.current || strokeLayerRef.current.pixelRatio !== pixelRatio) {
+      strokeLayerRef.current = createStrokeLayer(pixelRatio);
+    }
+    syncStrokeLayer(strokeLayerRef.current, strokes);
+
+    // Only the region inside the view is copied, stretched to fill the canvas
+    context.fillStyle = background;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    context.drawImage(
+      strokeLayerRef.current.canvas,
+      view.x * pixelRatio,
+      view.y * pixelRatio,
+      (CANVAS_WIDTH / view.scale) * pixelRatio,
+      (CANVAS_HEIGHT / view.scale) * pixelRatio,
+      0,
+      0,
+      context.canvas.width,
+      context.canvas.height
+    );
+  }, [background, pixelRatio, strokes, view]);
+
+  useEffect(() => {
+    const context = minimapCanvasRef.current?.getContext("2d");
+    const layer = strokeLayerRef.current;
+    if (!context || !layer || !isZoomed) {
+      return;
+    }
+    context.fillStyle = background;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    context.drawImage(layer.canvas, 0, 0, context.canvas.width, context.canvas.height);
+  }, [background, isZoomed, pixelRatio, strokes]);
+
+  // The drawer always sees the whole canvas; a guesser's zoom only lasts for the round
+  useEffect(() => {
+    viewRef.current = DEFAULT_VIEW;
+    viewGestureRef.current = null;
+    setView(DEFAULT_VIEW);
+  }, [canDraw, roundNumber]);
+
+  // In-progress strokes go on the overlay so pointer moves never touch the committed layer
+  useEffect(() => {
+    const context = overlayCanvasRef.current?.getContext("2d");
+    if (!context) {
+      return;
+    }
 
-    strokes.forEach((stroke) => drawStroke(context, stroke));
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+    applyLogicalTransform(context);
+    context.scale(view.scale, view.scale);
+    context.translate(-view.x, -view.y);
+    if (canDraw) {
+      drawSymmetryGuides(context, activeSymmetry);
+    }
+    liveStrokes.forEach((liveStroke) => drawStroke(context, { mode: "stroke", ...liveStroke }));
 
     if (liveStrokePoints.length > 1 && activeTool !== "bucket") {
-      drawStroke(context, {
-        mode: "stroke",
-        color: activeStrokeColor,
-        size: brushSize,
-        points: liveStrokePoints
+      const previewCopies = liveStrokeMode === "stroke"
+        ? mirrorStrokePoints(liveStrokePoints, drawingSymmetryRef.current)
+        : [liveStrokePoints];
+      previewCopies.forEach((points) => {
+        drawStroke(context, {
+          mode: liveStrokeMode,
+          color: activeStrokeColor,
+          size: activeStrokeSize,
+          opacity: activeStrokeOpacity,
+          points,
+          filled: shapeFilled
+        });
       });
     }
-  }, [activeStrokeColor, activeTool, brushSize, liveStrokePoints, strokes]);
+  }, [
+    activeStrokeColor,
+    activeStrokeOpacity,
+    activeStrokeSize,
+    activeSymmetry,
+    activeTool,
+    canDraw,
+    liveStrokeMode,
+    liveStrokePoints,
+    liveStrokes,
+    pixelRatio,
+    shapeFilled,
+    view
+  ]);
+
+  // Guessers get a replay of the finished drawing while the next drawer picks a word
+  useEffect(() => {
+    if (!isChoosingWordPhase || isDrawer || !latestRoundDrawing) {
+      return;
+    }
 
-  // Clear the live stroke preview once the committed stroke arrives from the server
+    let isCancelled = false;
+    void loadRoundDrawing(latestRoundDrawing).then((drawing) => {
+      if (!isCancelled && drawing) {
+        setReplayDrawing(drawing);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isChoosingWordPhase, isDrawer, latestRoundDrawing?.id]);
+
+  // The listener is bound once; the ref always points at the latest render's handler
   useEffect(() => {
-    if (pendingStrokeRef.current) {
-      pendingStrokeRef.current = false;
-      drawingPointsRef.current = [];
-      setLiveStrokePoints([]);
+    function handleKeyDown(event: KeyboardEvent) {
+      shortcutHandlerRef.current(event);
     }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+
+  // Clear the live stroke preview once the committed stroke arrives from the server
+  useEffect(() => {
+    clearPendingStroke();
   }, [strokes]);
 
-  function getCanvasPoint(event: ReactPointerEvent<HTMLCanvasElement>): StrokePoint {
+  // Maps a screen position to logical canvas coordinates through the given view
+  function clientToLogical(clientX: number, clientY: number, targetView: CanvasView) {
     const canvas = canvasRef.current;
     if (!canvas) {
       return { x: 0, y: 0 };
@@ -469,8 +830,14 @@ export default function Room({ routeRoomId }: RoomProps) {
     const rect = canvas.getBoundingClientRect();
     const scaleX = CANVAS_WIDTH / rect.width;
     const scaleY = CANVAS_HEIGHT / rect.height;
-    const x = (event.clientX - rect.left) * scaleX;
-    const y = (event.clientY - rect.top) * scaleY;
+    return {
+      x: targetView.x + ((clientX - rect.left) * scaleX) / targetView.scale,
+      y: targetView.y + ((clientY - rect.top) * scaleY) / targetView.scale
+    };
+  }
+
+  function getCanvasPoint(event: ReactPointerEvent<HTMLCanvasElement>): StrokePoint {
+    const { x, y } = clientToLogical(event.clientX, event.clientY, viewRef.current);
 
     return {
       x: Math.max(0, Math.min(CANVAS_WIDTH, x)),
@@ -478,12 +845,181 @@ export default function Room({ routeRoomId }: RoomProps) {
     };
   }
 
+  // Records when the point was drawn, relative to the start of the stroke, for time-lapse replays
+  function stampPoint(point: StrokePoint): StrokePoint {
+    return { ...point, t: Math.max(0, Date.now() - drawingStartedAtRef.current) };
+  }
+
+  // Attaches a width factor from pen or touch pressure when pressure mode is on. Mice report a
+  // constant pressure, so their strokes stay plain.
+  function applyPressure(point: StrokePoint, event: ReactPointerEvent<HTMLCanvasElement>): StrokePoint {
+    if (!pressureEnabled || event.pointerType === "mouse" || event.pressure <= 0) {
+      return point;
+    }
+    return { ...point, w: pressureToWidthFactor(event.pressure) };
+  }
+
+  // Streams the points added since the last flush so guessers can watch the stroke being drawn
+  function flushStrokeDelta() {
+    if (strokeDeltaTimerRef.current !== null) {
+      window.clearTimeout(strokeDeltaTimerRef.current);
+      strokeDeltaTimerRef.current = null;
+    }
+
+    // Only settled points are sent, so guessers' copies never have to be corrected later
+    const points = strokeSimplifierRef.current?.settled ?? [];
+    while (sentPointCountRef.current < points.length) {
+      const startIndex = sentPointCountRef.current;
+      const segment = points.slice(startIndex, startIndex + STROKE_DELTA_MAX_POINTS);
+      mirrorStrokePoints(segment, drawingSymmetryRef.current).forEach((copyPoints, copyIndex) => {
+        sendStrokeDelta({
+          strokeId: drawingStrokeIdsRef.current[copyIndex],
+          index: startIndex,
+          color: activeStrokeColor,
+          size: activeStrokeSize,
+          opacity: activeStrokeOpacity,
+          points: copyPoints
+        });
+      });
+      sentPointCountRef.current = startIndex + segment.length;
+    }
+  }
+
+  function scheduleStrokeDelta() {
+    if (strokeDeltaTimerRef.current !== null) {
+      return;
+    }
+    strokeDeltaTimerRef.current = window.setTimeout(flushStrokeDelta, STROKE_DELTA_INTERVAL_MS);
+  }
+
+  function rememberColor(color: string) {
+    const normalizedColor = color.toUpperCase();
+    setRecentColors((current) => {
+      if (current[0] === normalizedColor) {
+        return current;
+      }
+      const nextColors = [normalizedColor, ...current.filter((entry) => entry !== normalizedColor)].slice(0, MAX_RECENT_COLORS);
+      writeRecentColors(nextColors);
+      return nextColors;
+    });
+  }
+
+  function updateView(nextView: CanvasView) {
+    viewRef.current = nextView;
+    setView(nextView);
+  }
+
+  function getGestureCenter(pointers: ViewGesture["pointers"]) {
+    let x = 0;
+    let y = 0;
+    pointers.forEach((pointer) => {
+      x += pointer.x;
+      y += pointer.y;
+    });
+    return { x: x / pointers.size, y: y / pointers.size };
+  }
+
+  function getGestureDistance(pointers: ViewGesture["pointers"]) {
+    const [first, second] = [...pointers.values()];
+    return second ? Math.hypot(second.x - first.x, second.y - first.y) : 0;
+  }
+
+  function rebaseViewGesture(gesture: ViewGesture) {
+    gesture.startView = viewRef.current;
+    gesture.startCenter = getGestureCenter(gesture.pointers);
+    gesture.startDistance = getGestureDistance(gesture.pointers);
+  }
+
+  function handleViewPointerDown(event: ReactPointerEvent<HTMLCanvasElement>) {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (!viewGestureRef.current) {
+      viewGestureRef.current = {
+        pointers: new Map(),
+        startView: viewRef.current,
+        startCenter: { x: event.clientX, y: event.clientY },
+        startDistance: 0,
+        travel: 0
+      };
+    }
+    const gesture = viewGestureRef.current;
+    gesture.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    rebaseViewGesture(gesture);
+  }
+
+  function handleViewPointerMove(event: ReactPointerEvent<HTMLCanvasElement>) {
+    const gesture = viewGestureRef.current;
+    const pointer = gesture?.pointers.get(event.pointerId);
+    if (!gesture || !pointer) {
+      return;
+    }
+
+    gesture.travel += Math.hypot(event.clientX - pointer.x, event.clientY - pointer.y);
+    pointer.x = event.clientX;
+    pointer.y = event.clientY;
+
+    const center = getGestureCenter(gesture.pointers);
+    const distance = getGestureDistance(gesture.pointers);
+    const scale = gesture.startDistance > 0 && distance > 0
+      ? gesture.startView.scale * (distance / gesture.startDistance)
+      : gesture.startView.scale;
+
+    // Keep the logical point that was under the fingers at the start of the gesture under them now
+    const anchor = clientToLogical(gesture.startCenter.x, gesture.startCenter.y, gesture.startView);
+    const unscaled = clientToLogical(center.x, center.y, { scale, x: 0, y: 0 });
+    updateView(clampView({ scale, x: anchor.x - unscaled.x, y: anchor.y - unscaled.y }));
+  }
+
+  function handleViewPointerEnd(event: ReactPointerEvent<HTMLCanvasElement>) {
+    const gesture = viewGestureRef.current;
+    if (!gesture || !gesture.pointers.delete(event.pointerId)) {
+      return;
+    }
+    if (gesture.pointers.size > 0) {
+      rebaseViewGesture(gesture);
+      return;
+    }
+
+    viewGestureRef.current = null;
+    if (event.type !== "pointerup" || gesture.travel > TAP_MOVE_TOLERANCE) {
+      lastTapRef.current = null;
+      return;
+    }
+
+    const now = Date.now();
+    const lastTap = lastTapRef.current;
+    if (
+      lastTap &&
+      now - lastTap.time <= DOUBLE_TAP_MS &&
+      Math.hypot(event.clientX - lastTap.x, event.clientY - lastTap.y) <= DOUBLE_TAP_DISTANCE
+    ) {
+      lastTapRef.current = null;
+      updateView(DEFAULT_VIEW);
+      return;
+    }
+    lastTapRef.current = { time: now, x: event.clientX, y: event.clientY };
+  }
+
   function handlePointerDown(event: ReactPointerEvent<HTMLCanvasElement>) {
     if (!canDraw) {
+      handleViewPointerDown(event);
+      return;
+    }
+
+    const point = getCanvasPoint(event);
+
+    if (activeTool === "eyedropper") {
+      const context = strokeLayerRef.current?.canvas.getContext("2d");
+      if (context) {
+        setBrushColor(sampleCanvasColor(context, point, background));
+      }
+      setActiveTool("brush");
       return;
     }
 
+    drawingStartedAtRef.current = Date.now();
+
     if (activeTool === "bucket") {
+      rememberColor(brushColor);
       void dispatch(
         sendStroke({
           roomId: displayRoomId,
@@ -492,29 +1028,83 @@ export default function Room({ routeRoomId }: RoomProps) {
             mode: "fill",
             color: brushColor,
             size: brushSize,
-            points: []
+            opacity: brushOpacity,
+            startedAt: drawingStartedAtRef.current,
+            points: [stampPoint(point)],
+            tolerance: FILL_TOLERANCE
           }
         })
       );
       return;
     }
 
-    const point = getCanvasPoint(event);
-    const startingPoints = [point];
+    const startingPoint = stampPoint(point);
+    const startingPoints = [isShapeTool(activeTool) ? startingPoint : applyPressure(startingPoint, event)];
     drawingPointsRef.current = startingPoints;
     setLiveStrokePoints(startingPoints);
     setIsDrawing(true);
+
+    // Shapes only show a rubber-band preview locally and are sent once the drag ends
+    if (isShapeTool(activeTool)) {
+      return;
+    }
+
+    drawingSymmetryRef.current = activeSymmetry;
+    drawingStrokeIdsRef.current = mirrorStrokePoints(startingPoints, activeSymmetry).map(() => createStrokeId());
+    strokeSimplifierRef.current = createStrokeSimplifier(startingPoints[0]);
+    sentPointCountRef.current = 0;
+    scheduleStrokeDelta();
   }
 
   function handlePointerMove(event: ReactPointerEvent<HTMLCanvasElement>) {
-    if (!canDraw || !isDrawing || activeTool === "bucket") {
+    if (!canDraw) {
+      handleViewPointerMove(event);
+      return;
+    }
+    if (!isDrawing || activeTool === "bucket") {
       return;
     }
 
-    const point = getCanvasPoint(event);
-    const nextPoints = [...drawingPointsRef.current, point];
+    const point = stampPoint(getCanvasPoint(event));
+
+    if (isShapeTool(activeTool)) {
+      const shapePoints = [drawingPointsRef.current[0], point];
+      drawingPointsRef.current = shapePoints;
+      setLiveStrokePoints(shapePoints);
+      return;
+    }
+
+    const previousPoint = drawingPointsRef.current[drawingPointsRef.current.length - 1];
+    if (previousPoint && Math.hypot(point.x - previousPoint.x, point.y - previousPoint.y) < MIN_POINT_DISTANCE) {
+      return;
+    }
+
+    const nextPoints = [...drawingPointsRef.current, applyPressure(point, event)];
     drawingPointsRef.current = nextPoints;
-    setLiveStrokePoints(nextPoints);
+    setLiveStrokePoints(
+      strokeSimplifierRef.current
+        ? settleStrokePoints(strokeSimplifierRef.current, nextPoints, getSimplifyTolerance(activeStrokeSize))
+        : nextPoints
+    );
+    scheduleStrokeDelta();
+  }
+
+  function handlePointerEnd(event: ReactPointerEvent<HTMLCanvasElement>) {
+    if (!canDraw) {
+      handleViewPointerEnd(event);
+      return;
+    }
+    finishStroke();
+  }
+
+  // Drops the preview of a stroke that was sent for commit; called when it lands or is rejected
+  function clearPendingStroke() {
+    if (!pendingStrokeRef.current) {
+      return;
+    }
+    pendingStrokeRef.current = false;
+    drawingPointsRef.current = [];
+    setLiveStrokePoints([]);
   }
 
   function finishStroke() {
@@ -524,27 +1114,83 @@ export default function Room({ routeRoomId }: RoomProps) {
 
     setIsDrawing(false);
     const points = drawingPointsRef.current;
+    const strokeIds = drawingStrokeIdsRef.current;
+
+    if (isShapeTool(activeTool)) {
+      if (points.length < 2) {
+        drawingPointsRef.current = [];
+        setLiveStrokePoints([]);
+        return;
+      }
+
+      pendingStrokeRef.current = true;
+      rememberColor(brushColor);
+      void dispatch(
+        sendStroke({
+          roomId: displayRoomId,
+          username,
+          stroke: {
+            mode: activeTool,
+            color: brushColor,
+            size: brushSize,
+            opacity: brushOpacity,
+            startedAt: drawingStartedAtRef.current,
+            points,
+            filled: activeTool !== "line" && shapeFilled
+          }
+        })
+      ).then((result) => {
+        if (sendStroke.rejected.match(result)) {
+          clearPendingStroke();
+        }
+      });
+      return;
+    }
 
     if (points.length < 2) {
+      if (strokeDeltaTimerRef.current !== null) {
+        window.clearTimeout(strokeDeltaTimerRef.current);
+        strokeDeltaTimerRef.current = null;
+      }
+      if (sentPointCountRef.current > 0) {
+        strokeIds.forEach(sendStrokeCancel);
+      }
       drawingPointsRef.current = [];
       setLiveStrokePoints([]);
       return;
     }
 
+    const simplifiedPoints = strokeSimplifierRef.current
+      ? settleStrokePoints(strokeSimplifierRef.current, points, getSimplifyTolerance(activeStrokeSize), true)
+      : points;
+    setLiveStrokePoints(simplifiedPoints);
+    flushStrokeDelta();
+    if (activeTool !== "eraser") {
+      rememberColor(brushColor);
+    }
+
     // Keep live stroke visible until the committed stroke arrives in Redux
     pendingStrokeRef.current = true;
-    void dispatch(
-      sendStroke({
-        roomId: displayRoomId,
-        username,
-        stroke: {
-          mode: "stroke",
-          color: activeStrokeColor,
-          size: brushSize,
-          points
-        }
-      })
-    );
+    const strokes = mirrorStrokePoints(simplifiedPoints, drawingSymmetryRef.current).map((copyPoints, copyIndex) => ({
+      id: strokeIds[copyIndex],
+      mode: activeTool === "eraser" ? "erase" as const : "stroke" as const,
+      color: activeStrokeColor,
+      size: activeStrokeSize,
+      opacity: activeStrokeOpacity,
+      startedAt: drawingStartedAtRef.current,
+      points: copyPoints
+    }));
+    const commitRequest = strokes.length === 1
+      ? dispatch(sendStroke({ roomId: displayRoomId, username, stroke: strokes[0] }))
+        .then((result) => sendStroke.rejected.match(result))
+      : dispatch(sendStrokeGroup({ roomId: displayRoomId, username, strokes }))
+        .then((result) => sendStrokeGroup.rejected.match(result));
+    void commitRequest.then((isRejected) => {
+      if (isRejected) {
+        strokeIds.forEach(sendStrokeCancel);
+        clearPendingStroke();
+      }
+    });
   }
 
   function handleGuessSubmit(event: FormEvent<HTMLFormElement>) {
@@ -559,9 +1205,61 @@ export default function Room({ routeRoomId }: RoomProps) {
     }
 
     setGuessText("");
+    if (isSpectator) {
+      void dispatch(sendSpectatorChat({ roomId: displayRoomId, username, text: trimmedGuess }));
+      return;
+    }
     void dispatch(sendGuess({ roomId: displayRoomId, username, text: trimmedGuess }));
   }
 
+  function handleVoteSkip() {
+    if (!canVoteSkip || !displayRoomId || !username) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(voteSkip({ roomId: displayRoomId, username }));
+  }
+
+  function handleVoteKick(target: string) {
+    if (!displayRoomId || !username) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(voteKick({ roomId: displayRoomId, username, target }));
+  }
+
+  function handleKickPlayer(player: string) {
+    if (!isHost || !displayRoomId) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(kickPlayer({ roomId: displayRoomId, username, player }));
+  }
+
+  function handleBanPlayer(player: string) {
+    if (!isHost || !displayRoomId) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(banPlayer({ roomId: displayRoomId, username, player, banned: true }));
+  }
+
+  function handleTransferHost(player: string) {
+    if (!isHost || !displayRoomId) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(transferHost({ roomId: displayRoomId, username, player }));
+  }
+
+  function handleToggleLock() {
+    if (!isHost || !displayRoomId) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(setRoomLocked({ roomId: displayRoomId, username, locked: !locked }));
+  }
+
   function handleChooseWord(selectedWord: string) {
     if (!isDrawerChoosingWord || !displayRoomId || !username || isChoosingWordSubmitting) {
       return;
@@ -583,6 +1281,14 @@ export default function Room({ routeRoomId }: RoomProps) {
     void dispatch(clearCanvas({ roomId: displayRoomId, username }));
   }
 
+  function handleSetBackground() {
+    if (!canDraw || brushColor.toUpperCase() === background.toUpperCase()) {
+      return;
+    }
+    rememberColor(brushColor);
+    void dispatch(setCanvasBackground({ roomId: displayRoomId, username, color: brushColor }));
+  }
+
   function handleUndo() {
     if (!canDraw) {
       return;
@@ -594,6 +1300,147 @@ export default function Room({ routeRoomId }: RoomProps) {
     void dispatch(undoStroke({ roomId: displayRoomId, username }));
   }
 
+  function handleRedo() {
+    if (!canDraw) {
+      return;
+    }
+    setActiveAction("redo");
+    window.setTimeout(() => {
+      setActiveAction((current) => (current === "redo" ? null : current));
+    }, 220);
+    void dispatch(redoStroke({ roomId: displayRoomId, username }));
+  }
+
+  function stepPaletteColor(direction: 1 | -1) {
+    const currentIndex = DRAW_COLORS.indexOf(brushColor.toUpperCase());
+    const nextIndex = currentIndex === -1
+      ? (direction === 1 ? 0 : DRAW_COLORS.length - 1)
+      : (currentIndex + direction + DRAW_COLORS.length) % DRAW_COLORS.length;
+    setBrushColor(DRAW_COLORS[nextIndex]);
+  }
+
+  function handleShortcutKey(event: KeyboardEvent) {
+    if (event.defaultPrevented || event.isComposing || isTypingTarget(event.target)) {
+      return;
+    }
+
+    if (event.key === "Escape" && isShortcutsOpen) {
+      setIsShortcutsOpen(false);
+      return;
+    }
+    if (event.key === "?") {
+      event.preventDefault();
+      setIsShortcutsOpen((current) => !current);
+      return;
+    }
+
+    if (event.key === "Enter") {
+      if (canSubmitGuess && guessInputRef.current) {
+        event.preventDefault();
+        guessInputRef.current.focus();
+      }
+      return;
+    }
+
+    if (!canDraw || isDrawing || event.altKey) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (event.ctrlKey || event.metaKey) {
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          if (canRedo) {
+            handleRedo();
+          }
+        } else if (canUndo) {
+          handleUndo();
+        }
+      }
+      return;
+    }
+
+    if (key === "b") {
+      setActiveTool("brush");
+    } else if (key === "e") {
+      setActiveTool("eraser");
+    } else if (key === "f") {
+      setActiveTool("bucket");
+    } else if (key === "[") {
+      stepPaletteColor(-1);
+    } else if (key === "]") {
+      stepPaletteColor(1);
+    } else if (/^[1-9]$/.test(key) && Number(key) <= THICKNESS_OPTIONS.length) {
+      setBrushSize(THICKNESS_OPTIONS[Number(key) - 1]);
+    }
+  }
+  shortcutHandlerRef.current = handleShortcutKey;
+
+  // Finished drawings never change, so each one is fetched at most once
+  async function loadRoundDrawing(drawing: RoundDrawingSummary) {
+    const cachedDrawing = roundDrawingCacheRef.current.get(drawing.id);
+    if (cachedDrawing) {
+      return cachedDrawing;
+    }
+
+    const result = await dispatch(fetchRoundDrawing({ roomId: displayRoomId, drawingId: drawing.id }));
+    if (!fetchRoundDrawing.fulfilled.match(result)) {
+      return null;
+    }
+    roundDrawingCacheRef.current.set(drawing.id, result.payload);
+    return result.payload;
+  }
+
+  function handleToggleReplay(drawing: RoundDrawingSummary) {
+    if (replayDrawing?.id === drawing.id) {
+      setReplayDrawing(null);
+      return;
+    }
+    void loadRoundDrawing(drawing).then((loadedDrawing) => {
+      if (loadedDrawing) {
+        setReplayDrawing(loadedDrawing);
+      }
+    });
+  }
+
+  function handleSaveDrawing(drawing: RoundDrawingSummary, format: DrawingExportFormat) {
+    if (!displayRoomId || savingDrawingId) {
+      return;
+    }
+
+    setSavingDrawingId(drawing.id);
+    void loadRoundDrawing(drawing)
+      .then((loadedDrawing) => {
+        if (!loadedDrawing) {
+          return;
+        }
+        const fileName = createDrawingFileName(drawing, format);
+        if (format === "svg") {
+          const svg = buildDrawingSvg(loadedDrawing.strokes, loadedDrawing.background || CANVAS_BACKGROUND);
+          downloadBlob(new Blob([svg], { type: "image/svg+xml" }), fileName);
+          return;
+        }
+        return new Promise<void>((resolve) => {
+          renderDrawingToCanvas(loadedDrawing.strokes, loadedDrawing.background || CANVAS_BACKGROUND).toBlob((blob) => {
+            if (blob) {
+              downloadBlob(blob, fileName);
+            }
+            resolve();
+          }, "image/png");
+        });
+      })
+      .finally(() => setSavingDrawingId(null));
+  }
+
+  function handlePlayAgain() {
+    if (!isHost || !displayRoomId) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(returnToLobby({ roomId: displayRoomId, username }));
+  }
+
   function handleGoHome() {
     playButtonClick();
     try {
@@ -615,9 +1462,13 @@ export default function Room({ routeRoomId }: RoomProps) {
       );
     }
 
-    const firstPlace = rankedPlayers[0] || null;
-    const secondPlace = rankedPlayers[1] || null;
-    const thirdPlace = rankedPlayers[2] || null;
+    // In team mode the podium ranks teams by their combined score instead of individual players
+    const podiumEntries: PodiumEntry[] = rankedTeams.length > 0
+      ? rankedTeams.map((team) => ({ name: `Team ${team.name}`, score: team.score, color: getTeamColor(team.id) }))
+      : rankedPlayers.map((player) => ({ name: player.name, score: player.score, color: getChatColorForName(player.name) }));
+    const firstPlace = podiumEntries[0] || null;
+    const secondPlace = podiumEntries[1] || null;
+    const thirdPlace = podiumEntries[2] || null;
     const firstPlaceBurst = createPodiumBurst(1);
     const secondPlaceBurst = createPodiumBurst(2);
     const thirdPlaceBurst = createPodiumBurst(3);
@@ -649,7 +1500,9 @@ export default function Room({ routeRoomId }: RoomProps) {
 
         <main className="relative z-10 mx-auto mt-8 w-full max-w-5xl">
           <h1 className="text-center font-['Bebas_Neue'] text-7xl tracking-wider text-white">Game Over</h1>
-          <p className="mt-2 text-center text-2xl font-semibold text-white/95">Final Standings</p>
+          <p className="mt-2 text-center text-2xl font-semibold text-white/95">
+            {rankedTeams.length > 0 ? "Team Results" : "Final Standings"}
+          </p>
 
           <section className="mx-auto mt-8 grid max-w-4xl items-end gap-4 sm:grid-cols-3">
             <div className="order-1 sm:order-1">
@@ -676,7 +1529,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                   </div>
                   <div className="podium-card-inner">
                     <p className="font-['Bebas_Neue'] text-6xl leading-none text-zinc-600">2nd</p>
-                    <p className="mt-2 text-3xl font-black" style={{ color: getChatColorForName(secondPlace.name) }}>
+                    <p className="mt-2 text-3xl font-black" style={{ color: secondPlace.color }}>
                       {secondPlace.name}
                     </p>
                     <p className="text-xl font-semibold text-zinc-700">{secondPlace.score} pts</p>
@@ -711,7 +1564,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                   </div>
                   <div className="podium-card-inner">
                     <p className="font-['Bebas_Neue'] text-6xl leading-none text-amber-500">1st</p>
-                    <p className="mt-2 text-4xl font-black" style={{ color: getChatColorForName(firstPlace.name) }}>
+                    <p className="mt-2 text-4xl font-black" style={{ color: firstPlace.color }}>
                       {firstPlace.name}
                     </p>
                     <p className="text-2xl font-semibold text-zinc-700">{firstPlace.score} pts</p>
@@ -746,7 +1599,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                   </div>
                   <div className="podium-card-inner">
                     <p className="font-['Bebas_Neue'] text-6xl leading-none text-[#cd7f32]">3rd</p>
-                    <p className="mt-2 text-3xl font-black" style={{ color: getChatColorForName(thirdPlace.name) }}>
+                    <p className="mt-2 text-3xl font-black" style={{ color: thirdPlace.color }}>
                       {thirdPlace.name}
                     </p>
                     <p className="text-xl font-semibold text-zinc-700">{thirdPlace.score} pts</p>
@@ -758,6 +1611,25 @@ export default function Room({ routeRoomId }: RoomProps) {
             </div>
           </section>
 
+          {rankedTeams.length > 0 && (
+            <section className="mx-auto mt-6 w-full max-w-3xl rounded-lg bg-zinc-100/95 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)]">
+              <h2 className="text-center font-['Bebas_Neue'] text-4xl tracking-wide text-[#1982b5]">Teams</h2>
+              <ul className="mt-3 space-y-2">
+                {rankedTeams.map((team, index) => (
+                  <li key={team.id} className="rounded border border-zinc-300 bg-zinc-50 px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <p className="text-xl font-bold" style={{ color: getTeamColor(team.id) }}>
+                        {index + 1}. Team {team.name}
+                      </p>
+                      <p className="text-lg font-semibold text-zinc-700">{team.score} pts</p>
+                    </div>
+                    <p className="text-sm font-semibold text-zinc-600">{team.players.join(", ") || "No players left"}</p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
           <section className="mx-auto mt-6 w-full max-w-3xl rounded-lg bg-zinc-100/95 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)]">
             <h2 className="text-center font-['Bebas_Neue'] text-4xl tracking-wide text-[#1982b5]">All Players</h2>
             <ul className="mt-3 space-y-2">
@@ -775,14 +1647,68 @@ export default function Room({ routeRoomId }: RoomProps) {
             </ul>
           </section>
 
+          {roundDrawings.length > 0 && (
+            <section className="mx-auto mt-6 w-full max-w-3xl rounded-lg bg-zinc-100/95 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)]">
+              <h2 className="text-center font-['Bebas_Neue'] text-4xl tracking-wide text-[#1982b5]">Drawings</h2>
+              <ul className="mt-3 space-y-2">
+                {roundDrawings.map((drawing) => (
+                  <li
+                    key={drawing.id}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded border border-zinc-300 bg-zinc-50 px-3 py-2 text-zinc-700"
+                  >
+                    <p className="text-lg font-semibold">
+                      Round {drawing.roundNumber}: <span className="font-bold uppercase text-zinc-900">{drawing.word}</span> by{" "}
+                      <span className="font-bold" style={{ color: getChatColorForName(drawing.artist) }}>{drawing.artist}</span>
+                    </p>
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        className="rounded bg-slate-600 px-2.5 py-1 text-sm font-bold text-white transition hover:bg-slate-700"
+                        onClick={() => handleToggleReplay(drawing)}
+                      >
+                        {replayDrawing?.id === drawing.id ? "Hide replay" : "Replay"}
+                      </button>
+                      <SaveDrawingMenu
+                        disabled={savingDrawingId !== null}
+                        onSave={(format) => handleSaveDrawing(drawing, format)}
+                      />
+                    </div>
+                    {replayDrawing?.id === drawing.id && (
+                      <div className="mx-auto w-full max-w-[480px] pt-2">
+                        <ReplayPlayer
+                          strokes={replayDrawing.strokes}
+                          background={replayDrawing.background || CANVAS_BACKGROUND}
+                          autoPlay
+                        />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {isHost ? (
+            <button
+              type="button"
+              className="mx-auto mt-6 block w-full max-w-3xl rounded-md border border-white/25 bg-orange-500 px-4 py-4 text-center font-['Bebas_Neue'] text-5xl leading-none tracking-wide text-white transition-[background-color,box-shadow] duration-100 hover:-translate-y-0.5 hover:scale-[1.01] hover:bg-orange-600 hover:ring-2 hover:ring-red-500"
+              onClick={handlePlayAgain}
+              onMouseEnter={playHoverSnap}
+            >
+              Play Again
+            </button>
+          ) : (
+            <p className="mt-6 text-center text-lg font-semibold text-white/90">Waiting for the host to play again...</p>
+          )}
           <button
             type="button"
-            className="mx-auto mt-6 block w-full max-w-3xl rounded-md border border-white/25 bg-orange-500 px-4 py-4 text-center font-['Bebas_Neue'] text-5xl leading-none tracking-wide text-white transition-[background-color,box-shadow] duration-100 hover:-translate-y-0.5 hover:scale-[1.01] hover:bg-orange-600 hover:ring-2 hover:ring-red-500"
+            className="mx-auto mt-3 block w-full max-w-3xl rounded-md border border-white/25 bg-[#10a4e4] px-4 py-3 text-center font-['Bebas_Neue'] text-3xl leading-none tracking-wide text-white transition-[background-color,box-shadow] duration-100 hover:bg-[#0e8fcb] hover:ring-2 hover:ring-red-500"
             onClick={handleGoHome}
             onMouseEnter={playHoverSnap}
           >
-            Play Again
+            Home
           </button>
+          {error && <p className="mt-3 text-center text-sm font-semibold text-red-100">{error}</p>}
         </main>
       </div>
     );
@@ -810,7 +1736,15 @@ export default function Room({ routeRoomId }: RoomProps) {
             <p className="text-center text-2xl font-black text-zinc-900 sm:text-3xl">
               Word:{" "}
               <span className="inline-flex items-start whitespace-pre text-zinc-900">
-                <span className={shouldTrackMaskedWord ? "tracking-[0.14em]" : ""}>{navWordValue}</span>
+                <span className={shouldTrackMaskedWord ? "tracking-[0.14em]" : ""}>
+                  {freshHintIndices.length > 0
+                    ? Array.from(navWordValue).map((char, index) => (
+                      <span key={index} className={freshHintIndices.includes(index) ? "hint-reveal" : undefined}>
+                        {char}
+                      </span>
+                    ))
+                    : navWordValue}
+                </span>
                 {!canDraw && phase === "playing" && maskedLetterCount > 0 && (
                   <sup className="-mt-1 ml-1 text-xs font-semibold text-zinc-500">{maskedLetterCount}</sup>
                 )}
@@ -847,6 +1781,23 @@ export default function Room({ routeRoomId }: RoomProps) {
       <main className="relative z-10 mx-auto mt-4 grid w-full flex-1 min-h-0 max-w-[1500px] items-stretch gap-5 overflow-hidden xl:grid-cols-[320px_minmax(0,1fr)_360px]">
         <section className="flex h-full min-h-0 flex-col overflow-hidden rounded-lg bg-zinc-100/95 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)]">
           <h2 className="text-center font-['Bebas_Neue'] text-5xl tracking-wider text-[#1982b5]">Scores</h2>
+          {isHost ? (
+            <button
+              type="button"
+              title={locked ? "Let new people join again" : "Stop new people from joining"}
+              className={`mx-auto mt-1 rounded px-3 py-1 text-xs font-bold uppercase tracking-wide text-white transition ${
+                locked ? "bg-red-600 hover:bg-red-700" : "bg-zinc-500 hover:bg-zinc-600"
+              }`}
+              onClick={handleToggleLock}
+              onMouseEnter={playHoverSnap}
+            >
+              {locked ? "Unlock Room" : "Lock Room"}
+            </button>
+          ) : (
+            locked && (
+              <span className="mx-auto mt-1 rounded bg-red-600 px-3 py-1 text-xs font-bold uppercase tracking-wide text-white">Locked</span>
+            )
+          )}
           <ul className="mt-3 min-h-0 flex-1 space-y-2 overflow-y-auto pr-1">
             {rankedPlayers.map((player, index) => {
               const isPlayerHost = player.name.toLowerCase() === host.toLowerCase();
@@ -875,11 +1826,37 @@ export default function Room({ routeRoomId }: RoomProps) {
                             Host
                           </span>
                         )}
+                        {teamByPlayer.has(player.name) && (
+                          <span
+                            className="rounded px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white"
+                            style={{ backgroundColor: getTeamColor(teamByPlayer.get(player.name)?.id ?? 0) }}
+                          >
+                            {teamByPlayer.get(player.name)?.name}
+                          </span>
+                        )}
                         {isPlayerDrawer && (
                           <span className="rounded bg-sky-600 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white">
                             Drawing
                           </span>
                         )}
+                        {isHost && !isYou && (
+                          <HostControls
+                            playerName={player.name}
+                            onKick={handleKickPlayer}
+                            onBan={handleBanPlayer}
+                            onMakeHost={handleTransferHost}
+                          />
+                        )}
+                        {!isHost && !isYou && !isPlayerHost && (kickVote ? kickVote.target === player.name && !kickVote.hasVoted : canStartKickVote) && (
+                          <button
+                            type="button"
+                            title={`Vote to kick ${player.name}`}
+                            className="rounded bg-zinc-300 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-zinc-700 transition hover:bg-red-600 hover:text-white"
+                            onClick={() => handleVoteKick(player.name)}
+                          >
+                            Kick
+                          </button>
+                        )}
                       </div>
                     </div>
                     {phase === "playing" && isPlayerGuessed && !isPlayerDrawer && (
@@ -890,25 +1867,78 @@ export default function Room({ routeRoomId }: RoomProps) {
               );
             })}
           </ul>
+          {spectators.length > 0 && (
+            <div className="mt-3 border-t border-zinc-300 pt-3">
+              <p className="text-sm font-bold uppercase tracking-wide text-zinc-600">Spectators</p>
+              <ul className="mt-1 flex flex-wrap gap-1.5">
+                {spectators.map((spectator) => (
+                  <li key={spectator} className="flex items-center gap-1.5 rounded bg-zinc-300 px-2 py-0.5 text-sm font-semibold text-zinc-800">
+                    {spectator}
+                    {spectator.toLowerCase() === username.toLowerCase() ? " (you)" : ""}
+                    {isHost && (
+                      <button
+                        type="button"
+                        title={`Kick ${spectator}`}
+                        className="text-xs font-bold uppercase text-red-600 transition hover:text-red-800"
+                        onClick={() => handleKickPlayer(spectator)}
+                      >
+                        Kick
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </section>
 
         <section className="flex min-h-0 flex-col overflow-y-auto">
           <div className="flex justify-center">
             <div className="relative w-full max-w-[760px]">
-              <canvas
-                ref={canvasRef}
-                width={CANVAS_WIDTH}
-                height={CANVAS_HEIGHT}
-                className={`w-full max-w-[760px] rounded-md border-2 border-white/40 bg-[#ececec] shadow-[0_18px_30px_rgba(0,0,0,0.2)] touch-none ${
+              <div
+                className={`relative w-full max-w-[760px] overflow-hidden rounded-md border-2 border-white/40 shadow-[0_18px_30px_rgba(0,0,0,0.2)] ${
                   isWaitingForDrawerWord ? "opacity-60 saturate-0" : ""
                 }`}
-                style={canDraw ? { cursor: drawerCursor } : undefined}
-                onPointerDown={handlePointerDown}
-                onPointerMove={handlePointerMove}
-                onPointerUp={finishStroke}
-                onPointerLeave={finishStroke}
-                onPointerCancel={finishStroke}
-              />
+                style={{ backgroundColor: background }}
+              >
+                <canvas
+                  ref={canvasRef}
+                  width={Math.round(CANVAS_WIDTH * pixelRatio)}
+                  height={Math.round(CANVAS_HEIGHT * pixelRatio)}
+                  className="block w-full"
+                />
+                <canvas
+                  ref={overlayCanvasRef}
+                  width={Math.round(CANVAS_WIDTH * pixelRatio)}
+                  height={Math.round(CANVAS_HEIGHT * pixelRatio)}
+                  className="absolute inset-0 h-full w-full touch-none"
+                  style={canDraw ? { cursor: drawerCursor } : isZoomed ? { cursor: "grab" } : undefined}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerEnd}
+                  onPointerLeave={handlePointerEnd}
+                  onPointerCancel={handlePointerEnd}
+                />
+                {isZoomed && (
+                  <div className="pointer-events-none absolute bottom-2 right-2 overflow-hidden rounded border-2 border-white/70 shadow-[0_6px_14px_rgba(0,0,0,0.3)]">
+                    <canvas
+                      ref={minimapCanvasRef}
+                      width={MINIMAP_WIDTH}
+                      height={MINIMAP_HEIGHT}
+                      className="block w-24 sm:w-32"
+                    />
+                    <span
+                      className="absolute border-2 border-red-500"
+                      style={{
+                        left: `${(view.x / CANVAS_WIDTH) * 100}%`,
+                        top: `${(view.y / CANVAS_HEIGHT) * 100}%`,
+                        width: `${100 / view.scale}%`,
+                        height: `${100 / view.scale}%`
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
               {isWaitingForDrawerWord && (
                 <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-md bg-zinc-900/20 px-6 text-center">
                   <p className="font-['Bebas_Neue'] text-5xl tracking-wide text-white">
@@ -919,6 +1949,27 @@ export default function Room({ routeRoomId }: RoomProps) {
             </div>
           </div>
 
+          {isChoosingWordPhase && latestRoundDrawing && (
+            <div className="mx-auto mt-3 flex w-full max-w-[760px] flex-wrap items-center justify-between gap-2 rounded-lg border border-white/30 bg-[#1f2b43]/88 px-3 py-2 text-white">
+              <p className="text-sm font-semibold text-white/90">
+                Last round: <span className="font-bold uppercase text-white">{latestRoundDrawing.word}</span> by {latestRoundDrawing.artist}
+              </p>
+              <SaveDrawingMenu
+                disabled={savingDrawingId !== null}
+                onSave={(format) => handleSaveDrawing(latestRoundDrawing, format)}
+              />
+              {replayDrawing?.id === latestRoundDrawing.id && (
+                <div className="mx-auto w-full max-w-[380px] pt-1">
+                  <ReplayPlayer
+                    strokes={replayDrawing.strokes}
+                    background={replayDrawing.background || CANVAS_BACKGROUND}
+                    autoPlay
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {canDraw ? (
             <div className="mx-auto mt-4 w-full max-w-[760px]">
               <div className="grid gap-3 md:grid-cols-[auto_auto_auto] md:items-start md:justify-center">
@@ -939,13 +1990,75 @@ export default function Room({ routeRoomId }: RoomProps) {
                       />
                     ))}
                   </div>
+                  <div className="relative mt-2 flex items-center gap-1.5">
+                    <button
+                      type="button"
+                      title="Custom color"
+                      aria-label="Custom color"
+                      aria-expanded={isColorPickerOpen}
+                      className={`h-[26px] w-[26px] shrink-0 cursor-pointer rounded-[6px] border border-white/25 transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                        isColorPickerOpen ? "ring-2 ring-red-500" : ""
+                      }`}
+                      style={{ backgroundImage: "conic-gradient(#f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)" }}
+                      onPointerDown={(event) => event.stopPropagation()}
+                      onClick={() => setIsColorPickerOpen((current) => !current)}
+                    />
+                    <button
+                      type="button"
+                      title="Eyedropper"
+                      aria-label="Eyedropper"
+                      className={`flex h-[26px] w-[26px] shrink-0 cursor-pointer items-center justify-center rounded-[6px] bg-slate-600 text-white transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                        activeTool === "eyedropper" ? "ring-2 ring-red-500" : ""
+                      }`}
+                      onClick={() => setActiveTool("eyedropper")}
+                    >
+                      <svg viewBox="0 0 20 20" className="h-4 w-4" aria-hidden="true">
+                        <path d="M13.5 2.5a2.1 2.1 0 0 1 3 3L14 8l1 1-1.5 1.5-1-1-6.5 6.5H3v-3l6.5-6.5-1-1L10 4l1 1z" fill="none" stroke="currentColor" strokeWidth="1.6" strokeLinejoin="round" />
+                      </svg>
+                    </button>
+                    <button
+                      type="button"
+                      title="Use the current color as the background"
+                      aria-label="Use the current color as the background"
+                      className="flex h-[26px] w-[26px] shrink-0 cursor-pointer items-center justify-center rounded-[6px] border border-white/40 text-[10px] font-black transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105"
+                      style={{ backgroundColor: background, color: brushColor }}
+                      onClick={handleSetBackground}
+                    >
+                      BG
+                    </button>
+                    <span className="mx-0.5 h-5 w-px bg-white/25" aria-hidden="true" />
+                    {recentColors.map((color) => (
+                      <button
+                        key={`recent-${color}`}
+                        type="button"
+                        title={color}
+                        className={`h-[18px] w-[18px] cursor-pointer rounded-[4px] border transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                          brushColor === color
+                            ? "border-white/25 ring-2 ring-red-500"
+                            : "border-white/25"
+                        }`}
+                        style={{ backgroundColor: color }}
+                        onClick={() => setBrushColor(color)}
+                      />
+                    ))}
+                    {recentColors.length === 0 && (
+                      <span className="text-xs font-semibold text-white/60">Recent colors</span>
+                    )}
+                    {isColorPickerOpen && (
+                      <ColorPicker
+                        color={brushColor}
+                        onChange={setBrushColor}
+                        onClose={() => setIsColorPickerOpen(false)}
+                      />
+                    )}
+                  </div>
                 </div>
 
-                <div className="w-[252px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
+                <div className="w-[348px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
                   <div className="flex items-center justify-between gap-2">
                     <button
                       type="button"
-                      title="Brush"
+                      title="Brush (B)"
                       aria-label="Brush"
                       className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
                         activeTool === "brush"
@@ -958,7 +2071,23 @@ export default function Room({ routeRoomId }: RoomProps) {
                     </button>
                     <button
                       type="button"
-                      title="Eraser"
+                      title="Marker"
+                      aria-label="Marker"
+                      className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                        activeTool === "marker"
+                          ? "bg-slate-600 text-white ring-2 ring-red-500"
+                          : "bg-slate-600 text-white"
+                      }`}
+                      onClick={() => setActiveTool("marker")}
+                    >
+                      <svg viewBox="0 0 20 20" className="h-5 w-5" aria-hidden="true">
+                        <path d="M12.5 3.5l4 4-7 7H5.5v-4z" fill="none" stroke="currentColor" strokeWidth="1.6" strokeLinejoin="round" />
+                        <path d="M3 17.5h9" stroke={brushColor} strokeOpacity={MARKER_OPACITY} strokeWidth="3" strokeLinecap="round" />
+                      </svg>
+                    </button>
+                    <button
+                      type="button"
+                      title="Eraser (E)"
                       aria-label="Eraser"
                       className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
                         activeTool === "eraser"
@@ -971,7 +2100,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                     </button>
                     <button
                       type="button"
-                      title="Bucket"
+                      title="Bucket (F)"
                       aria-label="Bucket"
                       className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
                         activeTool === "bucket"
@@ -984,15 +2113,28 @@ export default function Room({ routeRoomId }: RoomProps) {
                     </button>
                     <button
                       type="button"
-                      title="Undo"
+                      title="Undo (Ctrl+Z)"
                       aria-label="Undo"
-                      className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md text-white transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                      className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md text-white transition-transform duration-150 enabled:hover:-translate-y-0.5 enabled:hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 ${
                         activeAction === "undo" ? "bg-sky-500" : "bg-slate-600"
                       }`}
                       onClick={handleUndo}
+                      disabled={!canUndo}
                     >
                       <img src={undoIcon} alt="Undo action" className="h-5 w-5 object-contain" draggable={false} />
                     </button>
+                    <button
+                      type="button"
+                      title="Redo (Ctrl+Shift+Z)"
+                      aria-label="Redo"
+                      className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md text-white transition-transform duration-150 enabled:hover:-translate-y-0.5 enabled:hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 ${
+                        activeAction === "redo" ? "bg-sky-500" : "bg-slate-600"
+                      }`}
+                      onClick={handleRedo}
+                      disabled={!canRedo}
+                    >
+                      <img src={undoIcon} alt="Redo action" className="h-5 w-5 -scale-x-100 object-contain" draggable={false} />
+                    </button>
                     <button
                       type="button"
                       title="Delete"
@@ -1007,13 +2149,13 @@ export default function Room({ routeRoomId }: RoomProps) {
                   </div>
                 </div>
 
-                <div className="w-[252px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
+                <div className="w-[300px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
                   <div className="flex items-center justify-between gap-2">
-                    {THICKNESS_OPTIONS.map((sizeOption) => (
+                    {THICKNESS_OPTIONS.map((sizeOption, index) => (
                       <button
                         key={sizeOption}
                         type="button"
-                        title={`${sizeOption}px`}
+                        title={`${sizeOption}px (${index + 1})`}
                         className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md bg-slate-600 transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
                           brushSize === sizeOption ? "ring-2 ring-red-500" : ""
                         }`}
@@ -1028,6 +2170,85 @@ export default function Room({ routeRoomId }: RoomProps) {
                         />
                       </button>
                     ))}
+                    <button
+                      type="button"
+                      title={pressureEnabled ? "Pressure on (pen and touch)" : "Pressure off"}
+                      aria-label="Pressure sensitivity"
+                      aria-pressed={pressureEnabled}
+                      className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md bg-slate-600 text-white transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                        pressureEnabled ? "ring-2 ring-red-500" : ""
+                      }`}
+                      onClick={() => setPressureEnabled((current) => !current)}
+                    >
+                      <svg viewBox="0 0 20 20" className="h-5 w-5" aria-hidden="true">
+                        <path d="M2 14c3-1 4-6 7-6s3 5 6 5 2-3 3-4" fill="none" stroke="currentColor" strokeLinecap="round" strokeWidth="1" />
+                        <path d="M2 17c3-1.5 4-5 7-5s3 3.5 6 3.5" fill="none" stroke="currentColor" strokeLinecap="round" strokeWidth="2.5" />
+                      </svg>
+                    </button>
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-white/80">
+                    Opacity
+                    <input
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={5}
+                      value={Math.round(brushOpacity * 100)}
+                      className="h-1.5 flex-1 cursor-pointer accent-red-500"
+                      onChange={(event) => setBrushOpacity(Number(event.target.value) / 100)}
+                    />
+                    <span className="w-9 text-right">{Math.round(brushOpacity * 100)}%</span>
+                  </label>
+                </div>
+
+                <div className="w-[252px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    {SHAPE_TOOLS.map(({ tool, label }) => (
+                      <button
+                        key={tool}
+                        type="button"
+                        title={label}
+                        aria-label={label}
+                        className={`flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                          activeTool === tool
+                            ? "bg-slate-600 text-white ring-2 ring-red-500"
+                            : "bg-slate-600 text-white"
+                        }`}
+                        onClick={() => setActiveTool(tool)}
+                      >
+                        {renderShapeIcon(tool, shapeFilled)}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      title={shapeFilled ? "Filled shapes" : "Outlined shapes"}
+                      aria-label={shapeFilled ? "Filled shapes" : "Outlined shapes"}
+                      aria-pressed={shapeFilled}
+                      className="flex h-10 min-w-[88px] cursor-pointer items-center justify-center rounded-md bg-slate-600 px-2 text-sm font-bold uppercase tracking-wide text-white transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105"
+                      onClick={() => setShapeFilled((current) => !current)}
+                    >
+                      {shapeFilled ? "Filled" : "Outline"}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="w-[252px] max-w-full rounded-lg border border-white/30 bg-[#1f2b43]/88 px-2.5 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    {SYMMETRY_OPTIONS.map(({ mode, label, icon }) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        title={label}
+                        aria-label={label}
+                        aria-pressed={symmetryMode === mode}
+                        className={`flex h-10 min-w-10 cursor-pointer items-center justify-center rounded-md bg-slate-600 px-2 text-lg font-bold text-white transition-transform duration-150 hover:-translate-y-0.5 hover:scale-105 ${
+                          symmetryMode === mode ? "ring-2 ring-red-500" : ""
+                        }`}
+                        onClick={() => setSymmetryMode(mode)}
+                      >
+                        {icon}
+                      </button>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -1035,7 +2256,7 @@ export default function Room({ routeRoomId }: RoomProps) {
           ) : (
             !isWaitingForDrawerWord && !isDrawerChoosingWord && (
               <p className="mt-4 text-center text-sm font-semibold text-white/90">
-                Guess the word in chat.
+                Guess the word in chat. Press <kbd className="rounded bg-white/20 px-1.5 font-bold">?</kbd> for shortcuts.
               </p>
             )
           )}
@@ -1054,6 +2275,7 @@ export default function Room({ routeRoomId }: RoomProps) {
             {messages.map((message) => {
               const isGuessMessage = message.type === "guess";
               const isSuccessMessage = message.type === "success";
+              const isSpectatorMessage = message.type === "spectator";
               const guessColor = getChatColorForName(message.username);
 
               return (
@@ -1063,6 +2285,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                     style={isGuessMessage ? { color: guessColor } : undefined}
                   >
                     {message.username}
+                    {isSpectatorMessage ? " (spectating)" : ""}
                   </p>
                   <p
                     className={`text-base ${
@@ -1070,7 +2293,9 @@ export default function Room({ routeRoomId }: RoomProps) {
                         ? "font-semibold text-green-700"
                         : message.type === "system"
                           ? "font-semibold text-zinc-700"
-                          : "font-semibold"
+                          : isSpectatorMessage
+                            ? "font-semibold italic text-violet-700"
+                            : "font-semibold"
                     }`}
                     style={isGuessMessage ? { color: guessColor } : undefined}
                   >
@@ -1081,11 +2306,52 @@ export default function Room({ routeRoomId }: RoomProps) {
             })}
           </div>
 
+          {(skipVote || kickVote || (phase === "playing" && !isDrawer && !isSpectator)) && (
+            <div className="mt-3 space-y-2">
+              {skipVote && (
+                <p className="rounded bg-amber-100 px-3 py-2 text-sm font-semibold text-amber-900">
+                  Skip {skipVote.target}&apos;s turn: {skipVote.votes}/{skipVote.needed} votes
+                  <span className="ml-2 tabular-nums text-amber-700">{Math.ceil((skipVote.endsAt - nowTs) / 1000)}s</span>
+                </p>
+              )}
+              {kickVote && (
+                <div className="flex items-center justify-between gap-2 rounded bg-red-100 px-3 py-2 text-sm font-semibold text-red-900">
+                  <span>
+                    Kick {kickVote.target}: {kickVote.votes}/{kickVote.needed} votes
+                    <span className="ml-2 tabular-nums text-red-700">{Math.ceil((kickVote.endsAt - nowTs) / 1000)}s</span>
+                  </span>
+                  {!isSpectator && !kickVote.hasVoted && kickVote.target?.toLowerCase() !== username.toLowerCase() && (
+                    <button
+                      type="button"
+                      className="rounded bg-red-600 px-2 py-1 text-xs font-bold uppercase tracking-wide text-white transition hover:bg-red-700"
+                      onClick={() => kickVote.target && handleVoteKick(kickVote.target)}
+                    >
+                      Vote
+                    </button>
+                  )}
+                </div>
+              )}
+              {phase === "playing" && !isDrawer && !isSpectator && (
+                <button
+                  type="button"
+                  className="w-full rounded bg-zinc-300 px-3 py-2 text-sm font-bold text-zinc-700 transition enabled:hover:bg-zinc-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={!canVoteSkip}
+                  onClick={handleVoteSkip}
+                >
+                  {skipVote?.hasVoted ? "You voted to skip" : skipVote ? "Vote to skip" : `Vote to skip ${drawerDisplayName}`}
+                </button>
+              )}
+            </div>
+          )}
+
           <form className="mt-3 flex items-center gap-2" onSubmit={handleGuessSubmit}>
             <input
+              ref={guessInputRef}
               className="flex-1 border border-zinc-400 bg-white px-3 py-2 text-sm font-semibold text-zinc-900 outline-none placeholder:text-zinc-400 disabled:bg-zinc-200"
               placeholder={
-                canDraw
+                isSpectator
+                  ? "Chat with other spectators..."
+                  : canDraw
                   ? "Drawer cannot chat"
                   : hasGuessedCurrentRound
                     ? "You already guessed correctly."
@@ -1094,6 +2360,7 @@ export default function Room({ routeRoomId }: RoomProps) {
                     : "Type your guess..."
               }
               value={guessText}
+              maxLength={isSpectator ? MAX_SPECTATOR_MESSAGE_LENGTH : undefined}
               onChange={(event) => setGuessText(event.target.value)}
               disabled={!canSubmitGuess}
             />
@@ -1118,14 +2385,19 @@ export default function Room({ routeRoomId }: RoomProps) {
             <div className="mt-5 space-y-3">
               {wordChoices.map((choice) => (
                 <button
-                  key={choice}
+                  key={choice.word}
                   type="button"
-                  className="w-full rounded-md border border-white/25 bg-[#10a4e4] px-4 py-3 text-center font-['Bebas_Neue'] text-4xl leading-none tracking-wide text-white transition-[background-color,box-shadow] duration-100 enabled:hover:-translate-y-0.5 enabled:hover:scale-[1.01] enabled:hover:bg-[#0e8fcb] enabled:hover:ring-2 enabled:hover:ring-red-500 disabled:cursor-not-allowed disabled:opacity-70"
-                  onClick={() => handleChooseWord(choice)}
+                  className="flex w-full items-center justify-between gap-3 rounded-md border border-white/25 bg-[#10a4e4] px-4 py-3 text-left font-['Bebas_Neue'] text-4xl leading-none tracking-wide text-white transition-[background-color,box-shadow] duration-100 enabled:hover:-translate-y-0.5 enabled:hover:scale-[1.01] enabled:hover:bg-[#0e8fcb] enabled:hover:ring-2 enabled:hover:ring-red-500 disabled:cursor-not-allowed disabled:opacity-70"
+                  onClick={() => handleChooseWord(choice.word)}
                   disabled={isChoosingWordSubmitting}
                   onMouseEnter={playHoverSnap}
                 >
-                  {choice.toUpperCase()}
+                  <span>{choice.word.toUpperCase()}</span>
+                  <span
+                    className={`shrink-0 rounded px-2 py-1 font-sans text-xs font-bold uppercase tracking-wide ${DIFFICULTY_BADGE_CLASSES[choice.difficulty]}`}
+                  >
+                    {choice.difficulty} · {choice.multiplier}x
+                  </span>
                 </button>
               ))}
               {wordChoices.length === 0 && (
@@ -1135,6 +2407,40 @@ export default function Room({ routeRoomId }: RoomProps) {
           </div>
         </div>
       )}
+
+      {isShortcutsOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/25 px-4"
+          onClick={() => setIsShortcutsOpen(false)}
+        >
+          <div
+            role="dialog"
+            aria-label="Keyboard shortcuts"
+            className="w-full max-w-sm rounded-lg bg-zinc-100 p-6 shadow-[0_24px_45px_rgba(0,0,0,0.35)]"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h2 className="text-center font-['Bebas_Neue'] text-4xl tracking-wider text-[#1982b5]">Keyboard Shortcuts</h2>
+            <ul className="mt-4 space-y-2">
+              {KEYBOARD_SHORTCUTS.map((shortcut) => (
+                <li key={shortcut.keys} className="flex items-center justify-between gap-4 text-base font-semibold text-zinc-800">
+                  <span>{shortcut.label}</span>
+                  <kbd className="rounded border border-zinc-300 bg-white px-2 py-0.5 text-sm font-bold text-zinc-700 shadow-sm">
+                    {shortcut.keys}
+                  </kbd>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-4 text-center text-sm font-semibold text-zinc-500">Shortcuts are paused while you type in chat.</p>
+            <button
+              type="button"
+              className="mt-4 w-full rounded-md bg-[#10a4e4] px-4 py-2 font-['Bebas_Neue'] text-2xl tracking-wide text-white transition hover:bg-[#0e8fcb]"
+              onClick={() => setIsShortcutsOpen(false)}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,323 @@
+import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  leaveLobby,
+  returnToLobby,
+  revealTelephoneEntry,
+  setError,
+  submitTelephoneEntry,
+  type Stroke,
+  type TelephoneEntry
+} from "../store";
+import { useRoomSocket } from "../useRoomSocket";
+import { renderDrawingToCanvas } from "../drawing";
+import { playButtonClick, playHoverSnap, playRoundStart } from "../sounds";
+import VantaFog from "../components/VantaFog";
+import TelephoneCanvas from "../components/TelephoneCanvas";
+
+const SESSION_KEY = "scribble_squad_tab_session";
+const ROOM_NOT_FOUND_ERROR = "Room not found.";
+const REMOVED_FROM_ROOM_ERROR = "You were removed from the room.";
+const CANVAS_BACKGROUND = "#ECECEC";
+const MAX_TELEPHONE_TEXT_LENGTH = 120;
+
+type TelephoneProps = {
+  routeRoomId?: string;
+};
+
+function formatTimerLabel(totalSeconds: number) {
+  const seconds = Math.max(0, totalSeconds);
+  const minutesPart = Math.floor(seconds / 60);
+  const secondsPart = seconds % 60;
+  return `${minutesPart}:${String(secondsPart).padStart(2, "0")}`;
+}
+
+function TelephoneDrawing({ strokes, background }: { strokes: Stroke[]; background: string }) {
+  const imageUrl = useMemo(() => renderDrawingToCanvas(strokes, background, 1).toDataURL("image/png"), [background, strokes]);
+  return <img src={imageUrl} alt="Drawing" className="block w-full rounded-md border-2 border-white/40" />;
+}
+
+function TelephoneEntryCard({ entry }: { entry: TelephoneEntry }) {
+  if (entry.type === "drawing") {
+    return (
+      <div>
+        <p className="mb-1 text-sm font-bold text-zinc-600">{entry.author} drew:</p>
+        {entry.strokes.length > 0 ? (
+          <TelephoneDrawing strokes={entry.strokes} background={entry.background} />
+        ) : (
+          <p className="rounded-md bg-zinc-200 p-3 text-base font-semibold italic text-zinc-500">Nothing was drawn.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="mb-1 text-sm font-bold text-zinc-600">{entry.author} wrote:</p>
+      <p className="rounded-md bg-white p-3 text-xl font-semibold text-zinc-800">
+        {entry.text || <span className="italic text-zinc-500">Nothing was written.</span>}
+      </p>
+    </div>
+  );
+}
+
+export default function Telephone({ routeRoomId }: TelephoneProps) {
+  const dispatch = useAppDispatch();
+  const { roomId, username, host, phase, telephone, spectators, error } = useAppSelector((state) => state.connection);
+  const [draftText, setDraftText] = useState("");
+  const [draftStrokes, setDraftStrokes] = useState<Stroke[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [nowTs, setNowTs] = useState(() => Date.now());
+  const autoSubmittedStepRef = useRef(-1);
+  const albumEndRef = useRef<HTMLDivElement | null>(null);
+
+  const displayRoomId = roomId || routeRoomId || "";
+  const isHost = host.toLowerCase() === username.toLowerCase();
+  const isSpectator = spectators.some((spectator) => spectator.toLowerCase() === username.toLowerCase());
+  const isReveal = phase === "telephone_reveal";
+  const step = telephone?.step ?? 0;
+  const stepCount = telephone?.stepCount ?? 0;
+  const stepEndsAt = telephone?.stepEndsAt ?? 0;
+  const hasSubmitted = telephone?.submitted ?? true;
+  const secondsLeft = !isReveal && stepEndsAt > 0 ? Math.max(0, Math.ceil((stepEndsAt - nowTs) / 1000)) : 0;
+  const prompt = telephone?.prompt ?? null;
+  const album = telephone?.album ?? [];
+  const revealedEntryCount = album.reduce((total, chain) => total + chain.entries.length, 0);
+  const canSubmit = !hasSubmitted && !isSubmitting && (phase === "telephone_draw" || draftText.trim().length > 0);
+
+  useRoomSocket({ roomId: displayRoomId, username });
+
+  useEffect(() => {
+    const timerId = window.setInterval(() => setNowTs(Date.now()), 250);
+    return () => window.clearInterval(timerId);
+  }, []);
+
+  // Every step starts with an empty draft
+  useEffect(() => {
+    setDraftText("");
+    setDraftStrokes([]);
+    if (step > 0) {
+      playRoundStart();
+    }
+  }, [step]);
+
+  useEffect(() => {
+    albumEndRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [revealedEntryCount]);
+
+  useEffect(() => {
+    if (error !== ROOM_NOT_FOUND_ERROR && error !== REMOVED_FROM_ROOM_ERROR) {
+      return;
+    }
+    try {
+      window.sessionStorage.removeItem(SESSION_KEY);
+      window.history.replaceState(null, "", "/");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    } catch {
+      // ignore storage write failures
+    }
+    dispatch(leaveLobby());
+    // Keep the reason on screen once back home
+    if (error === REMOVED_FROM_ROOM_ERROR) {
+      dispatch(setError(error));
+    }
+  }, [dispatch, error]);
+
+  async function submitDraft() {
+    if (!displayRoomId || !username) {
+      return;
+    }
+    setIsSubmitting(true);
+    const entry = phase === "telephone_draw"
+      ? { strokes: draftStrokes, background: CANVAS_BACKGROUND }
+      : { text: draftText.trim() };
+    await dispatch(submitTelephoneEntry({ roomId: displayRoomId, username, ...entry }));
+    setIsSubmitting(false);
+  }
+
+  // When time runs out whatever is on the page is sent; the server fills in anything still missing
+  useEffect(() => {
+    if (isReveal || hasSubmitted || stepEndsAt <= 0 || secondsLeft > 0 || autoSubmittedStepRef.current === step) {
+      return;
+    }
+    autoSubmittedStepRef.current = step;
+    if (phase === "telephone_draw" || draftText.trim()) {
+      void submitDraft();
+    }
+  });
+
+  function handleSubmit(event?: FormEvent) {
+    event?.preventDefault();
+    if (!canSubmit) {
+      return;
+    }
+    playButtonClick();
+    void submitDraft();
+  }
+
+  function handleRevealNext() {
+    if (!isHost || telephone?.revealComplete) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(revealTelephoneEntry({ roomId: displayRoomId, username }));
+  }
+
+  function handlePlayAgain() {
+    if (!isHost) {
+      return;
+    }
+    playButtonClick();
+    void dispatch(returnToLobby({ roomId: displayRoomId, username }));
+  }
+
+  function handleGoHome() {
+    playButtonClick();
+    try {
+      window.sessionStorage.removeItem(SESSION_KEY);
+      window.history.replaceState(null, "", "/");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    } catch {
+      // ignore storage write failures
+    }
+    dispatch(leaveLobby());
+  }
+
+  const stepTitle = isReveal
+    ? "The Album"
+    : phase === "telephone_write"
+      ? "Write a prompt"
+      : phase === "telephone_draw"
+        ? "Draw this"
+        : "Describe this drawing";
+
+  return (
+    <div className="relative min-h-screen px-4 pb-4 pt-4 sm:px-7 sm:pb-6 sm:pt-4">
+      <VantaFog />
+      <header className="relative z-10 mx-auto w-full max-w-4xl rounded-lg bg-zinc-100/95 px-4 py-3 shadow-[0_12px_25px_rgba(0,0,0,0.15)] sm:px-5">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            type="button"
+            className="inline-flex h-10 min-w-[74px] items-center justify-center rounded-md bg-[#10a4e4] px-4 text-sm font-bold tracking-wide text-white transition hover:-translate-y-0.5 hover:bg-[#0e8fcb] hover:ring-2 hover:ring-red-500"
+            onClick={handleGoHome}
+            onMouseEnter={playHoverSnap}
+          >
+            Home
+          </button>
+          <p className="font-['Bebas_Neue'] text-4xl leading-none tracking-wide text-zinc-800">{stepTitle}</p>
+          <p className="text-base font-semibold text-zinc-800 sm:text-lg">
+            {isReveal ? `${album.length} of ${stepCount} chains` : `Step ${step + 1} of ${stepCount}`}
+            {!isReveal && <span className="ml-3 font-black tabular-nums">{formatTimerLabel(secondsLeft)}</span>}
+          </p>
+        </div>
+      </header>
+
+      <main className="relative z-10 mx-auto mt-4 w-full max-w-4xl">
+        {!isReveal && (
+          <section className="rounded-lg bg-zinc-100 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)] sm:p-6">
+            {prompt && <TelephoneEntryCard entry={prompt} />}
+
+            {!hasSubmitted && phase === "telephone_draw" && (
+              <div className="mt-4">
+                <TelephoneCanvas
+                  strokes={draftStrokes}
+                  background={CANVAS_BACKGROUND}
+                  disabled={isSubmitting}
+                  onChange={setDraftStrokes}
+                />
+              </div>
+            )}
+
+            {!hasSubmitted && phase !== "telephone_draw" && (
+              <form className="mt-4 flex gap-2" onSubmit={handleSubmit}>
+                <input
+                  className="h-12 min-w-0 flex-1 rounded-md border border-zinc-300 bg-white px-3 text-lg font-semibold text-zinc-800"
+                  placeholder={phase === "telephone_write" ? "A cat riding a skateboard..." : "What do you see?"}
+                  maxLength={MAX_TELEPHONE_TEXT_LENGTH}
+                  value={draftText}
+                  disabled={isSubmitting}
+                  autoFocus
+                  onChange={(event) => setDraftText(event.target.value)}
+                />
+              </form>
+            )}
+
+            {!hasSubmitted && (
+              <button
+                type="button"
+                className="mt-4 w-full rounded-md bg-[#10a4e4] px-4 py-3 font-['Bebas_Neue'] text-4xl leading-none tracking-wide text-white transition enabled:hover:bg-[#0e8fcb] disabled:cursor-not-allowed disabled:opacity-65"
+                disabled={!canSubmit}
+                onClick={() => handleSubmit()}
+                onMouseEnter={playHoverSnap}
+              >
+                {isSubmitting ? "Sending..." : "Done"}
+              </button>
+            )}
+
+            {hasSubmitted && (
+              <div className="text-center">
+                <p className="font-['Bebas_Neue'] text-4xl tracking-wide text-zinc-800">
+                  {isSpectator ? "You are spectating" : "Sent!"}
+                </p>
+                {telephone && telephone.waitingOn.length > 0 && (
+                  <p className="mt-1 text-base font-semibold text-zinc-600">
+                    Waiting on {telephone.waitingOn.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {isReveal && (
+          <div className="flex flex-col gap-4">
+            {album.map((chain) => (
+              <section key={chain.id} className="rounded-lg bg-zinc-100 p-4 shadow-[0_12px_25px_rgba(0,0,0,0.15)] sm:p-6">
+                <h2 className="font-['Bebas_Neue'] text-3xl leading-none tracking-wide text-zinc-800">
+                  {chain.owner}&apos;s chain
+                </h2>
+                <ol className="mt-3 flex flex-col gap-3">
+                  {chain.entries.map((entry, index) => (
+                    <li key={`${chain.id}-${index}`}>
+                      <TelephoneEntryCard entry={entry} />
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            ))}
+            <div ref={albumEndRef} />
+
+            {isHost && !telephone?.revealComplete && (
+              <button
+                type="button"
+                className="w-full rounded-md border border-white/25 bg-[#10a4e4] px-4 py-4 text-center font-['Bebas_Neue'] text-5xl leading-none tracking-wide text-white transition hover:bg-[#0e8fcb] hover:ring-2 hover:ring-red-500"
+                onClick={handleRevealNext}
+                onMouseEnter={playHoverSnap}
+              >
+                Next
+              </button>
+            )}
+            {!isHost && !telephone?.revealComplete && (
+              <p className="text-center text-base font-semibold text-white/90">The host is revealing the album...</p>
+            )}
+            {isHost && telephone?.revealComplete && (
+              <button
+                type="button"
+                className="w-full rounded-md border border-white/25 bg-orange-500 px-4 py-4 text-center font-['Bebas_Neue'] text-5xl leading-none tracking-wide text-white transition hover:bg-orange-600 hover:ring-2 hover:ring-red-500"
+                onClick={handlePlayAgain}
+                onMouseEnter={playHoverSnap}
+              >
+                Play Again
+              </button>
+            )}
+            {!isHost && telephone?.revealComplete && (
+              <p className="text-center text-base font-semibold text-white/90">Waiting for the host to play again...</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm font-semibold text-red-100">{error}</p>}
+      </main>
+    </div>
+  );
+}
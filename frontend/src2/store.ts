@@ -3,13 +3,88 @@ import { configureStore, createAsyncThunk, createSlice, type PayloadAction } fro
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:8080";
 
 type SessionStatus = "idle" | "loading" | "connected" | "error";
-type GamePhase = "lobby" | "choosing_word" | "playing" | "game_over";
-type MessageType = "guess" | "system" | "success";
+type GamePhase =
+  | "lobby"
+  | "choosing_word"
+  | "playing"
+  | "game_over"
+  | "telephone_write"
+  | "telephone_draw"
+  | "telephone_describe"
+  | "telephone_reveal";
+type MessageType = "guess" | "system" | "success" | "spectator";
 
-export type StrokePoint = { x: number; y: number };
-export type Stroke = { id: string; mode: "stroke" | "fill"; color: string; size: number; points: StrokePoint[] };
+export type StrokePoint = { x: number; y: number; w?: number; t?: number };
+export type StrokeMode = "stroke" | "erase" | "fill" | "line" | "rect" | "ellipse";
+export type Stroke = {
+  id: string;
+  mode: StrokeMode;
+  color: string;
+  size: number;
+  points: StrokePoint[];
+  tolerance?: number;
+  filled?: boolean;
+  opacity?: number;
+  startedAt?: number;
+  groupId?: string;
+};
+export type StrokeDelta = {
+  strokeId: string;
+  index: number;
+  color: string;
+  size: number;
+  opacity: number;
+  points: StrokePoint[];
+};
+export type LiveStroke = { id: string; color: string; size: number; opacity: number; points: StrokePoint[] };
+export type RoundDrawingSummary = { id: string; roundNumber: number; word: string; artist: string };
+export type RoundDrawing = RoundDrawingSummary & { background?: string; strokes: Stroke[] };
 export type ChatMessage = { id: string; type: MessageType; username: string; text: string; ts: number };
 export type PlayerScore = { name: string; score: number };
+export type Team = { id: number; name: string; players: string[]; score: number };
+export type WordSource = "default" | "mixed" | "custom";
+export type WordDifficulty = "easy" | "medium" | "hard";
+export type WordCategory = "people" | "characters" | "media" | "sports" | "places" | "things" | "actions" | "ideas";
+export type WordChoice = { word: string; difficulty: WordDifficulty; multiplier: number };
+export type GameMode = "classic" | "telephone";
+export type TelephoneEntry =
+  | { type: "text"; author: string; text: string }
+  | { type: "drawing"; author: string; strokes: Stroke[]; background: string };
+export type TelephoneChain = { id: string; owner: string; entries: TelephoneEntry[] };
+export type TelephoneState = {
+  step: number;
+  stepCount: number;
+  stepEndsAt: number;
+  prompt: TelephoneEntry | null;
+  submitted: boolean;
+  waitingOn: string[];
+  album: TelephoneChain[];
+  revealComplete: boolean;
+};
+export type VoteState = {
+  startedBy: string;
+  target: string | null;
+  votes: number;
+  needed: number;
+  endsAt: number;
+  hasVoted: boolean;
+};
+export type RoomVotes = {
+  skip: VoteState | null;
+  kick: VoteState | null;
+  cooldowns: { skip: number; kick: number };
+};
+export type RoomSettings = {
+  roundDurationSeconds: number;
+  chooseWordDurationSeconds: number;
+  wordChoiceCount: number;
+  roundCount: number;
+  wordSource: WordSource;
+  categories: WordCategory[];
+  teamMode: boolean;
+  teamCount: number;
+  gameMode: GameMode;
+};
 
 export type RoomSnapshot = {
   roomId: string;
@@ -17,22 +92,36 @@ export type RoomSnapshot = {
   host: string;
   drawer: string | null;
   players: PlayerScore[];
+  teams: Team[];
   wordDisplay: string;
-  wordChoices: string[];
+  wordChoices: WordChoice[];
   canDraw: boolean;
   guessedPlayers: string[];
   messages: ChatMessage[];
   strokes: Stroke[];
+  background: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  roundDrawings: RoundDrawingSummary[];
+  settings: RoomSettings;
+  customWords: string[];
+  customWordCount: number;
   chooseEndsAt: number;
   roundEndsAt: number;
   roundNumber: number;
   totalRounds: number;
   roundsCompleted: number;
+  telephone: TelephoneState | null;
+  votes: RoomVotes;
+  locked: boolean;
+  bannedPlayers: string[];
+  spectators: string[];
 };
 
 type JoinGamePayload = {
   roomId: string;
   username: string;
+  spectate?: boolean;
 };
 
 type CreateGamePayload = {
@@ -52,13 +141,65 @@ type ChooseWordPayload = GameActionPayload & {
   word: string;
 };
 
+type SettingsPayload = GameActionPayload & {
+  settings: Partial<RoomSettings>;
+};
+
+type TeamsPayload = GameActionPayload & ({ balance: true } | { player: string; team: number });
+
+type CustomWordsPayload = GameActionPayload & {
+  words: string[];
+};
+
+type KickVotePayload = GameActionPayload & {
+  target: string;
+};
+
+type ModerationPayload = GameActionPayload & {
+  player: string;
+};
+
+type BanPayload = ModerationPayload & {
+  banned: boolean;
+};
+
+type LockPayload = GameActionPayload & {
+  locked: boolean;
+};
+
+type RolePayload = GameActionPayload & {
+  role: "player" | "spectator";
+};
+
+type TelephoneSubmitPayload = GameActionPayload & ({ text: string } | { strokes: StrokeInput[]; background: string });
+
+type BackgroundPayload = GameActionPayload & {
+  color: string;
+};
+
+type RoundDrawingPayload = {
+  roomId: string;
+  drawingId: string;
+};
+
+type StrokeInput = {
+  id?: string;
+  mode: StrokeMode;
+  color: string;
+  size: number;
+  points?: StrokePoint[];
+  tolerance?: number;
+  filled?: boolean;
+  opacity?: number;
+  startedAt?: number;
+};
+
 type SendStrokePayload = GameActionPayload & {
-  stroke: {
-    mode: "stroke" | "fill";
-    color: string;
-    size: number;
-    points?: StrokePoint[];
-  };
+  stroke: StrokeInput;
+};
+
+type SendStrokeGroupPayload = GameActionPayload & {
+  strokes: StrokeInput[];
 };
 
 type JoinOrCreateResponse = RoomSnapshot & {
@@ -73,17 +214,31 @@ type ConnectionState = {
   host: string;
   drawer: string | null;
   players: PlayerScore[];
+  teams: Team[];
   wordDisplay: string;
-  wordChoices: string[];
+  wordChoices: WordChoice[];
   canDraw: boolean;
   guessedPlayers: string[];
   messages: ChatMessage[];
   strokes: Stroke[];
+  liveStrokes: LiveStroke[];
+  background: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  roundDrawings: RoundDrawingSummary[];
+  settings: RoomSettings;
+  customWords: string[];
+  customWordCount: number;
   chooseEndsAt: number;
   roundEndsAt: number;
   roundNumber: number;
   totalRounds: number;
   roundsCompleted: number;
+  telephone: TelephoneState | null;
+  votes: RoomVotes;
+  locked: boolean;
+  bannedPlayers: string[];
+  spectators: string[];
   error: string | null;
 };
 
@@ -95,17 +250,41 @@ const initialState: ConnectionState = {
   host: "",
   drawer: null,
   players: [],
+  teams: [],
   wordDisplay: "",
   wordChoices: [],
   canDraw: false,
   guessedPlayers: [],
   messages: [],
   strokes: [],
+  liveStrokes: [],
+  background: "#ECECEC",
+  canUndo: false,
+  canRedo: false,
+  roundDrawings: [],
+  settings: {
+    roundDurationSeconds: 90,
+    chooseWordDurationSeconds: 20,
+    wordChoiceCount: 3,
+    roundCount: 0,
+    wordSource: "default",
+    categories: ["people", "characters", "media", "sports", "places", "things", "actions", "ideas"],
+    teamMode: false,
+    teamCount: 2,
+    gameMode: "classic"
+  },
+  customWords: [],
+  customWordCount: 0,
   chooseEndsAt: 0,
   roundEndsAt: 0,
   roundNumber: 1,
   totalRounds: 0,
   roundsCompleted: 0,
+  telephone: null,
+  votes: { skip: null, kick: null, cooldowns: { skip: 0, kick: 0 } },
+  locked: false,
+  bannedPlayers: [],
+  spectators: [],
   error: null
 };
 
@@ -125,27 +304,46 @@ function applySnapshot(state: ConnectionState, snapshot: RoomSnapshot) {
   state.host = snapshot.host;
   state.drawer = snapshot.drawer;
   state.players = snapshot.players;
+  state.teams = snapshot.teams;
   state.wordDisplay = snapshot.wordDisplay;
   state.wordChoices = snapshot.wordChoices;
   state.canDraw = snapshot.canDraw;
   state.guessedPlayers = snapshot.guessedPlayers;
   state.messages = snapshot.messages;
   state.strokes = snapshot.strokes;
+  if (snapshot.phase !== "playing") {
+    state.liveStrokes = [];
+  } else if (state.liveStrokes.length > 0) {
+    const committedIds = new Set(snapshot.strokes.map((stroke) => stroke.id));
+    state.liveStrokes = state.liveStrokes.filter((liveStroke) => !committedIds.has(liveStroke.id));
+  }
+  state.background = snapshot.background;
+  state.canUndo = snapshot.canUndo;
+  state.canRedo = snapshot.canRedo;
+  state.roundDrawings = snapshot.roundDrawings;
+  state.settings = snapshot.settings;
+  state.customWords = snapshot.customWords;
+  state.customWordCount = snapshot.customWordCount;
   state.chooseEndsAt = snapshot.chooseEndsAt;
   state.roundEndsAt = snapshot.roundEndsAt;
   state.roundNumber = snapshot.roundNumber;
   state.totalRounds = snapshot.totalRounds;
   state.roundsCompleted = snapshot.roundsCompleted;
+  state.telephone = snapshot.telephone;
+  state.votes = snapshot.votes;
+  state.locked = snapshot.locked;
+  state.bannedPlayers = snapshot.bannedPlayers;
+  state.spectators = snapshot.spectators;
 }
 
 export const joinGame = createAsyncThunk<JoinOrCreateResponse, JoinGamePayload, { rejectValue: string }>(
   "connection/joinGame",
-  async ({ roomId, username }, { rejectWithValue }) => {
+  async ({ roomId, username, spectate = false }, { rejectWithValue }) => {
     try {
       const response = await fetch(`${API_BASE_URL}/api/rooms/join`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ roomId, username })
+        body: JSON.stringify({ roomId, username, spectate })
       });
       return await parseApiResponse<JoinOrCreateResponse>(response);
     } catch (error) {
@@ -204,6 +402,176 @@ export const startGame = createAsyncThunk<RoomSnapshot, GameActionPayload, { rej
   }
 );
 
+export const updateRoomSettings = createAsyncThunk<RoomSnapshot, SettingsPayload, { rejectValue: string }>(
+  "connection/updateRoomSettings",
+  async ({ roomId, username, settings }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/settings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, settings })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to update settings";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateTeams = createAsyncThunk<RoomSnapshot, TeamsPayload, { rejectValue: string }>(
+  "connection/updateTeams",
+  async ({ roomId, username, ...change }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/teams`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, ...change })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to update teams";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const saveCustomWords = createAsyncThunk<RoomSnapshot, CustomWordsPayload, { rejectValue: string }>(
+  "connection/saveCustomWords",
+  async ({ roomId, username, words }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/words`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, words })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to save words";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const kickPlayer = createAsyncThunk<RoomSnapshot, ModerationPayload, { rejectValue: string }>(
+  "connection/kickPlayer",
+  async ({ roomId, username, player }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/kick`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, player })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to kick player";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const banPlayer = createAsyncThunk<RoomSnapshot, BanPayload, { rejectValue: string }>(
+  "connection/banPlayer",
+  async ({ roomId, username, player, banned }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/ban`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, player, banned })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to update bans";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const transferHost = createAsyncThunk<RoomSnapshot, ModerationPayload, { rejectValue: string }>(
+  "connection/transferHost",
+  async ({ roomId, username, player }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/transfer-host`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, player })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to transfer host";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const setRoomLocked = createAsyncThunk<RoomSnapshot, LockPayload, { rejectValue: string }>(
+  "connection/setRoomLocked",
+  async ({ roomId, username, locked }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/lock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, locked })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to lock room";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const returnToLobby = createAsyncThunk<RoomSnapshot, GameActionPayload, { rejectValue: string }>(
+  "connection/returnToLobby",
+  async ({ roomId, username }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/lobby`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to return to the lobby";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const switchRole = createAsyncThunk<RoomSnapshot, RolePayload, { rejectValue: string }>(
+  "connection/switchRole",
+  async ({ roomId, username, role }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/role`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, role })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to switch role";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const sendSpectatorChat = createAsyncThunk<RoomSnapshot, GuessPayload, { rejectValue: string }>(
+  "connection/sendSpectatorChat",
+  async ({ roomId, username, text }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/spectator-chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, text })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to send message";
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const sendGuess = createAsyncThunk<RoomSnapshot, GuessPayload, { rejectValue: string }>(
   "connection/sendGuess",
   async ({ roomId, username, text }, { rejectWithValue }) => {
@@ -238,6 +606,74 @@ export const chooseWord = createAsyncThunk<RoomSnapshot, ChooseWordPayload, { re
   }
 );
 
+export const voteSkip = createAsyncThunk<RoomSnapshot, GameActionPayload, { rejectValue: string }>(
+  "connection/voteSkip",
+  async ({ roomId, username }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/votes/skip`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to vote";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const voteKick = createAsyncThunk<RoomSnapshot, KickVotePayload, { rejectValue: string }>(
+  "connection/voteKick",
+  async ({ roomId, username, target }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/votes/kick`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, target })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to vote";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const submitTelephoneEntry = createAsyncThunk<RoomSnapshot, TelephoneSubmitPayload, { rejectValue: string }>(
+  "connection/submitTelephoneEntry",
+  async ({ roomId, username, ...entry }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/telephone/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, ...entry })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to submit entry";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const revealTelephoneEntry = createAsyncThunk<RoomSnapshot, GameActionPayload, { rejectValue: string }>(
+  "connection/revealTelephoneEntry",
+  async ({ roomId, username }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/telephone/reveal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username })
+      });
+      return await parseApiResponse<RoomSnapshot>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to reveal entry";
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const sendStroke = createAsyncThunk<void, SendStrokePayload, { rejectValue: string }>(
   "connection/sendStroke",
   async ({ roomId, username, stroke }, { rejectWithValue }) => {
@@ -255,6 +691,24 @@ export const sendStroke = createAsyncThunk<void, SendStrokePayload, { rejectValu
   }
 );
 
+// Mirrored strokes are committed in one request so they land, and undo, as a single group
+export const sendStrokeGroup = createAsyncThunk<void, SendStrokeGroupPayload, { rejectValue: string }>(
+  "connection/sendStrokeGroup",
+  async ({ roomId, username, strokes }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/strokes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, strokes })
+      });
+      await parseApiResponse<{ ok: boolean }>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to send stroke";
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const clearCanvas = createAsyncThunk<void, GameActionPayload, { rejectValue: string }>(
   "connection/clearCanvas",
   async ({ roomId, username }, { rejectWithValue }) => {
@@ -289,6 +743,55 @@ export const undoStroke = createAsyncThunk<void, GameActionPayload, { rejectValu
   }
 );
 
+export const redoStroke = createAsyncThunk<void, GameActionPayload, { rejectValue: string }>(
+  "connection/redoStroke",
+  async ({ roomId, username }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/redo`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username })
+      });
+      await parseApiResponse<{ ok: boolean }>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to redo";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const setCanvasBackground = createAsyncThunk<void, BackgroundPayload, { rejectValue: string }>(
+  "connection/setCanvasBackground",
+  async ({ roomId, username, color }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/background`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, color })
+      });
+      await parseApiResponse<{ ok: boolean }>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to change background";
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const fetchRoundDrawing = createAsyncThunk<RoundDrawing, RoundDrawingPayload, { rejectValue: string }>(
+  "connection/fetchRoundDrawing",
+  async ({ roomId, drawingId }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/rooms/${encodeURIComponent(roomId)}/drawings/${encodeURIComponent(drawingId)}`
+      );
+      return await parseApiResponse<RoundDrawing>(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to load drawing";
+      return rejectWithValue(message);
+    }
+  }
+);
+
 const connectionSlice = createSlice({
   name: "connection",
   initialState,
@@ -301,6 +804,35 @@ const connectionSlice = createSlice({
       applySnapshot(state, action.payload);
       state.error = null;
     },
+    applyStrokeDelta: (state, action: PayloadAction<StrokeDelta>) => {
+      const delta = action.payload;
+      if (state.phase !== "playing" || state.strokes.some((stroke) => stroke.id === delta.strokeId)) {
+        return;
+      }
+
+      const liveStroke = state.liveStrokes.find((entry) => entry.id === delta.strokeId);
+      if (!liveStroke) {
+        if (delta.index === 0) {
+          state.liveStrokes.push({
+            id: delta.strokeId,
+            color: delta.color,
+            size: delta.size,
+            opacity: delta.opacity,
+            points: delta.points
+          });
+        }
+        return;
+      }
+
+      // Segments carry their start index so a repeated segment overwrites instead of duplicating
+      if (delta.index > liveStroke.points.length) {
+        return;
+      }
+      liveStroke.points = [...liveStroke.points.slice(0, delta.index), ...delta.points];
+    },
+    cancelLiveStroke: (state, action: PayloadAction<string>) => {
+      state.liveStrokes = state.liveStrokes.filter((entry) => entry.id !== action.payload);
+    },
     clearError: (state) => {
       state.error = null;
       if (state.status === "error" && !state.roomId) {
@@ -367,6 +899,76 @@ const connectionSlice = createSlice({
         state.status = "connected";
         state.error = action.payload || "Unable to start game";
       })
+      .addCase(updateRoomSettings.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(updateRoomSettings.rejected, (state, action) => {
+        state.error = action.payload || "Unable to update settings";
+      })
+      .addCase(updateTeams.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(updateTeams.rejected, (state, action) => {
+        state.error = action.payload || "Unable to update teams";
+      })
+      .addCase(saveCustomWords.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(saveCustomWords.rejected, (state, action) => {
+        state.error = action.payload || "Unable to save words";
+      })
+      .addCase(kickPlayer.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(kickPlayer.rejected, (state, action) => {
+        state.error = action.payload || "Unable to kick player";
+      })
+      .addCase(banPlayer.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(banPlayer.rejected, (state, action) => {
+        state.error = action.payload || "Unable to update bans";
+      })
+      .addCase(transferHost.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(transferHost.rejected, (state, action) => {
+        state.error = action.payload || "Unable to transfer host";
+      })
+      .addCase(setRoomLocked.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(setRoomLocked.rejected, (state, action) => {
+        state.error = action.payload || "Unable to lock room";
+      })
+      .addCase(returnToLobby.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(returnToLobby.rejected, (state, action) => {
+        state.error = action.payload || "Unable to return to the lobby";
+      })
+      .addCase(switchRole.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(switchRole.rejected, (state, action) => {
+        state.error = action.payload || "Unable to switch role";
+      })
+      .addCase(sendSpectatorChat.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(sendSpectatorChat.rejected, (state, action) => {
+        state.error = action.payload || "Unable to send message";
+      })
       .addCase(sendGuess.fulfilled, (state, action) => {
         applySnapshot(state, action.payload);
         state.error = null;
@@ -381,19 +983,66 @@ const connectionSlice = createSlice({
       .addCase(chooseWord.rejected, (state, action) => {
         state.error = action.payload || "Unable to choose word";
       })
+      .addCase(voteSkip.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(voteSkip.rejected, (state, action) => {
+        state.error = action.payload || "Unable to vote";
+      })
+      .addCase(voteKick.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(voteKick.rejected, (state, action) => {
+        state.error = action.payload || "Unable to vote";
+      })
+      .addCase(submitTelephoneEntry.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(submitTelephoneEntry.rejected, (state, action) => {
+        state.error = action.payload || "Unable to submit entry";
+      })
+      .addCase(revealTelephoneEntry.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
+        state.error = null;
+      })
+      .addCase(revealTelephoneEntry.rejected, (state, action) => {
+        state.error = action.payload || "Unable to reveal entry";
+      })
       .addCase(sendStroke.rejected, (state, action) => {
         state.error = action.payload || "Unable to draw";
       })
+      .addCase(sendStrokeGroup.rejected, (state, action) => {
+        state.error = action.payload || "Unable to draw";
+      })
       .addCase(clearCanvas.rejected, (state, action) => {
         state.error = action.payload || "Unable to clear canvas";
       })
       .addCase(undoStroke.rejected, (state, action) => {
         state.error = action.payload || "Unable to undo";
+      })
+      .addCase(redoStroke.rejected, (state, action) => {
+        state.error = action.payload || "Unable to redo";
+      })
+      .addCase(setCanvasBackground.rejected, (state, action) => {
+        state.error = action.payload || "Unable to change background";
+      })
+      .addCase(fetchRoundDrawing.rejected, (state, action) => {
+        state.error = action.payload || "Unable to load drawing";
       });
   }
 });
 
-export const { applyRoomSnapshot, clearError, setError, leaveLobby } = connectionSlice.actions;
+export const {
+  applyRoomSnapshot,
+  applyStrokeDelta,
+  cancelLiveStroke,
+  clearError,
+  setError,
+  leaveLobby
+} = connectionSlice.actions;
 
 export const store = configureStore({
   reducer: {
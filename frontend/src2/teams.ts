@@ -0,0 +1,6 @@
+// Display colors for teams, indexed by team id to match the server's TEAM_NAMES order
+const TEAM_COLORS = ["#E5484D", "#1D7FE0", "#1F9D55", "#D4A106"];
+
+export function getTeamColor(teamId: number) {
+  return TEAM_COLORS[teamId % TEAM_COLORS.length];
+}
@@ -3,12 +3,21 @@ export type Player = { name: string; score: number };
 export type StrokePoint = {
   x: number;
   y: number;
+  w?: number;
+  t?: number;
 };
 
+export type StrokeMode = "stroke" | "erase" | "fill" | "line" | "rect" | "ellipse";
+
 export type Stroke = {
   id: string;
-  mode: "stroke" | "fill";
+  mode: StrokeMode;
   color: string;
   size: number;
   points: StrokePoint[];
+  tolerance?: number;
+  filled?: boolean;
+  opacity?: number;
+  startedAt?: number;
+  groupId?: string;
 };
@@ -1,8 +1,17 @@
-import { useEffect, useMemo, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { useAppDispatch } from "./hooks";
-import { applyRoomSnapshot, clearError, setError, type RoomSnapshot } from "./store";
+import {
+  applyRoomSnapshot,
+  applyStrokeDelta,
+  cancelLiveStroke,
+  clearError,
+  setError,
+  type RoomSnapshot,
+  type StrokeDelta
+} from "./store";
 
 const ROOM_NOT_FOUND_ERROR = "Room not found.";
+const REMOVED_FROM_ROOM_ERROR = "You were removed from the room.";
 const RECONNECT_DELAY_MS = 900;
 
 type RoomSocketOptions = {
@@ -19,12 +28,32 @@ type SocketRoomMissingMessage = {
   type: "room_missing";
 };
 
+type SocketRemovedMessage = {
+  type: "removed";
+};
+
 type SocketErrorMessage = {
   type: "error";
   error?: unknown;
 };
 
-type SocketMessage = SocketSnapshotMessage | SocketRoomMissingMessage | SocketErrorMessage;
+type SocketStrokeDeltaMessage = {
+  type: "stroke_delta";
+  delta: unknown;
+};
+
+type SocketStrokeCancelMessage = {
+  type: "stroke_cancel";
+  strokeId?: unknown;
+};
+
+type SocketMessage =
+  | SocketSnapshotMessage
+  | SocketRoomMissingMessage
+  | SocketRemovedMessage
+  | SocketErrorMessage
+  | SocketStrokeDeltaMessage
+  | SocketStrokeCancelMessage;
 
 function resolveSocketUrl() {
   const explicitUrl = import.meta.env.VITE_WS_URL;
@@ -90,11 +119,26 @@ export function useRoomSocket({ roomId, username }: RoomSocketOptions) {
           return;
         }
 
+        if (payload.type === "stroke_delta" && payload.delta) {
+          dispatch(applyStrokeDelta(payload.delta as StrokeDelta));
+          return;
+        }
+
+        if (payload.type === "stroke_cancel" && typeof payload.strokeId === "string") {
+          dispatch(cancelLiveStroke(payload.strokeId));
+          return;
+        }
+
         if (payload.type === "room_missing") {
           dispatch(setError(ROOM_NOT_FOUND_ERROR));
           return;
         }
 
+        if (payload.type === "removed") {
+          dispatch(setError(REMOVED_FROM_ROOM_ERROR));
+          return;
+        }
+
         if (payload.type === "error") {
           const message = typeof payload.error === "string" ? payload.error : "Socket connection error.";
           dispatch(setError(message));
@@ -133,4 +177,22 @@ export function useRoomSocket({ roomId, username }: RoomSocketOptions) {
       }
     };
   }, [dispatch, roomId, username, wsUrl]);
+
+  const sendMessage = useCallback((payload: Record<string, unknown>) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    socket.send(JSON.stringify(payload));
+  }, []);
+
+  const sendStrokeDelta = useCallback((delta: StrokeDelta) => {
+    sendMessage({ type: "stroke_delta", ...delta });
+  }, [sendMessage]);
+
+  const sendStrokeCancel = useCallback((strokeId: string) => {
+    sendMessage({ type: "stroke_cancel", strokeId });
+  }, [sendMessage]);
+
+  return { sendStrokeDelta, sendStrokeCancel };
 }